@@ -0,0 +1,412 @@
+import * as path from "path";
+import {
+  LinkGraph,
+  LinkPlan,
+  LocalPackages,
+  PackageSelection,
+  RunSummary,
+  StatusReport,
+  ToolConfig,
+  UnlinkSummary,
+} from "./types";
+import {
+  applyPackageDefaults,
+  CONFIG_FILE,
+  ConfigError,
+  findConfigFile,
+  formatConfigIssue,
+  loadConfig,
+  loadToolConfig,
+  rereadConfig,
+} from "./config";
+import { Logger } from "./logger";
+import { Reporter, SilentReporter } from "./reporter";
+import { EventReporter, LinkerEvents } from "./events";
+import {
+  detectPackageManager,
+  PackageManagerCommands,
+} from "./package-manager";
+import {
+  linkAllPackages,
+  linkRecursiveDependencies,
+  unlinkAllPackages,
+  unlinkRecursiveDependencies,
+} from "./linker";
+import { watchPackages, WatchSession } from "./watcher";
+import { collectStatus } from "./status";
+import { createLinkPlan } from "./plan";
+import { createLinkGraph } from "./graph";
+import { createRunLogDirectory } from "./run-logs";
+import {
+  isSelectionEmpty,
+  resolveSelection,
+  selectPackages,
+} from "./selection";
+
+/**
+ * Options shared by all functions of the programmatic API
+ */
+export interface ApiOptions {
+  cwd?: string; // Project directory, defaults to the current directory
+  configFile?: string; // Configuration file to use instead of the project's own
+  packages?: LocalPackages; // Packages to use instead of the configuration files
+}
+
+/**
+ * Options for functions that build, link or unlink packages
+ */
+export interface RunOptions extends ApiOptions {
+  selection?: PackageSelection;
+  profile?: string; // Profile from the localLinker block of package.json
+  reporter?: Reporter; // Receives the messages, nothing is shown by default
+  events?: LinkerEvents; // Receives events for steps, changes and summaries
+  verbose?: boolean; // Pass the output of commands to the reporter
+  logs?: boolean; // Write the output of commands to log files, on by default
+}
+
+/**
+ * Options for linking and watching, defaulting to the localLinker block of
+ * the project's package.json
+ */
+export interface LinkOptions extends RunOptions {
+  resolveDependencies?: boolean;
+  recursive?: boolean;
+  concurrency?: number;
+  force?: boolean;
+  dedupePeers?: boolean;
+  strict?: boolean;
+}
+
+/**
+ * Options for unlinking packages
+ */
+export interface UnlinkOptions extends RunOptions {
+  names?: string[]; // Packages to unlink, defaults to the selected ones
+  recursive?: boolean;
+}
+
+/**
+ * Options for checking the link status
+ */
+export interface StatusOptions extends ApiOptions {
+  names?: string[]; // Packages to check, defaults to all
+  recursive?: boolean;
+}
+
+/**
+ * Options for working out the dependency graph
+ */
+export interface GraphOptions extends ApiOptions {
+  recursive?: boolean; // Include packages from nested configurations
+}
+
+/**
+ * Outcome of linking packages and starting to watch them
+ */
+export interface WatchResult {
+  summary: RunSummary;
+  session: WatchSession | null; // Null when linking failed
+}
+
+/**
+ * Everything a single call of the API works with
+ */
+interface Run {
+  projectPath: string;
+  toolConfig: ToolConfig;
+  packages: LocalPackages;
+  selection: PackageSelection;
+  selected: LocalPackages;
+  logger: Logger;
+  pmCommands: PackageManagerCommands;
+}
+
+/**
+ * Load the packages of a project with the defaults from its package.json
+ *
+ * Throws a ConfigError if there is no configuration or it has errors.
+ */
+export function loadPackages(options: ApiOptions = {}): LocalPackages {
+  const projectPath = path.resolve(options.cwd || process.cwd());
+  return applyPackageDefaults(
+    options.packages || readPackages(projectPath, true, options.configFile),
+    loadToolConfig(projectPath)
+  );
+}
+
+/**
+ * Build and link the selected packages
+ */
+export async function link(options: LinkOptions = {}): Promise<RunSummary> {
+  return linkSelected(createRun(options, true), options);
+}
+
+/**
+ * Work out the commands linking the selected packages would run, without
+ * running anything
+ */
+export function plan(options: LinkOptions = {}): LinkPlan {
+  const run = createRun({ ...options, logs: false }, true);
+  const { toolConfig } = run;
+
+  return createLinkPlan(
+    run.selected,
+    run.pmCommands,
+    run.logger,
+    pick(options.resolveDependencies, toolConfig.resolveDependencies),
+    pick(options.recursive, toolConfig.recursiveLinks),
+    options.force === true,
+    pick(options.strict, toolConfig.strict)
+  );
+}
+
+/**
+ * Build and link the selected packages, then rebuild and relink them when
+ * they change
+ *
+ * Packages are only watched when everything was linked. The configuration
+ * files are watched too, unless the packages were passed in.
+ */
+export async function watch(options: LinkOptions = {}): Promise<WatchResult> {
+  const run = createRun(options, true);
+
+  const summary = await linkSelected(run, options);
+  if (!summary.success) {
+    return { summary, session: null };
+  }
+
+  const reloadPackages = options.packages
+    ? undefined
+    : () => {
+        const packages = rereadConfig(
+          run.logger,
+          run.projectPath,
+          options.configFile
+        );
+        return (
+          packages &&
+          selectPackages(
+            applyPackageDefaults(packages, run.toolConfig),
+            run.selection,
+            run.logger,
+            run.projectPath
+          )
+        );
+      };
+
+  return {
+    summary,
+    session: watchPackages(
+      run.selected,
+      run.pmCommands,
+      run.logger,
+      reloadPackages,
+      options.configFile
+    ),
+  };
+}
+
+/**
+ * Unlink packages and reinstall the versions declared in package.json
+ *
+ * Packages that are still linked but no longer configured can be unlinked
+ * too, so a project without configuration isn't an error.
+ */
+export async function unlink(
+  options: UnlinkOptions = {}
+): Promise<UnlinkSummary> {
+  const run = createRun(options, false);
+
+  let names = options.names || [];
+  if (names.length === 0 && !isSelectionEmpty(run.selection)) {
+    names = Object.keys(run.selected);
+  }
+
+  const recursive =
+    options.recursive !== undefined
+      ? options.recursive
+      : run.toolConfig.recursiveLinks === true;
+  if (recursive) {
+    await unlinkRecursiveDependencies(
+      run.packages,
+      names,
+      run.pmCommands,
+      run.logger
+    );
+  }
+
+  return unlinkAllPackages(run.packages, names, run.pmCommands, run.logger);
+}
+
+/**
+ * Check the project's node_modules against the configured packages
+ */
+export function status(options: StatusOptions = {}): StatusReport {
+  const projectPath = path.resolve(options.cwd || process.cwd());
+  const toolConfig = loadToolConfig(projectPath);
+  const configured = loadPackages({ ...options, cwd: projectPath });
+
+  const names = options.names || [];
+  const unknown = names.filter((name) => !configured[name]);
+  if (unknown.length > 0) {
+    throw new ConfigError(`Not configured: ${unknown.join(", ")}`);
+  }
+
+  const packages =
+    names.length > 0
+      ? names.reduce<LocalPackages>((acc, name) => {
+          acc[name] = configured[name];
+          return acc;
+        }, {})
+      : configured;
+
+  return collectStatus(
+    packages,
+    options.recursive !== undefined
+      ? options.recursive
+      : toolConfig.recursiveLinks === true,
+    projectPath
+  );
+}
+
+/**
+ * Work out how the project and its local packages depend on each other
+ */
+export function graph(options: GraphOptions = {}): LinkGraph {
+  const projectPath = path.resolve(options.cwd || process.cwd());
+  const toolConfig = loadToolConfig(projectPath);
+
+  return createLinkGraph(
+    loadPackages({ ...options, cwd: projectPath }),
+    new Logger(false, new SilentReporter()),
+    projectPath,
+    pick(options.recursive, toolConfig.recursiveLinks)
+  );
+}
+
+/**
+ * Read the configuration files of a project, throwing a ConfigError when
+ * they can't be used
+ */
+function readPackages(
+  projectPath: string,
+  required: boolean,
+  configFile?: string
+): LocalPackages {
+  if (configFile && !findConfigFile(projectPath, configFile)) {
+    throw new ConfigError(`Configuration file ${configFile} doesn't exist`);
+  }
+
+  const { files, entries, issues } = loadConfig(projectPath, configFile);
+  if (files.length === 0) {
+    if (required) {
+      throw new ConfigError(`No ${CONFIG_FILE} file found in ${projectPath}`);
+    }
+    return {};
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    throw new ConfigError(errors.map(formatConfigIssue).join("\n"), errors);
+  }
+
+  return entries.reduce<LocalPackages>((acc, entry) => {
+    acc[entry.name] = entry.config;
+    return acc;
+  }, {});
+}
+
+/**
+ * Set up the packages, logger and package manager for a call
+ */
+function createRun(options: RunOptions, requireConfig: boolean): Run {
+  const projectPath = path.resolve(options.cwd || process.cwd());
+  const toolConfig = loadToolConfig(projectPath);
+  const packages = applyPackageDefaults(
+    options.packages ||
+      readPackages(projectPath, requireConfig, options.configFile),
+    toolConfig
+  );
+
+  const reporter = options.reporter || new SilentReporter();
+  const logger = new Logger(
+    false,
+    options.events ? new EventReporter(options.events, reporter) : reporter,
+    {
+      verbose: options.verbose,
+      logDirectory:
+        options.logs === false ? undefined : createRunLogDirectory(projectPath),
+    }
+  );
+
+  const pmCommands = new PackageManagerCommands(
+    detectPackageManager(projectPath),
+    logger,
+    projectPath
+  );
+
+  const selection = resolveSelection(
+    options.selection || {},
+    options.profile,
+    toolConfig,
+    logger
+  );
+  if (!selection) {
+    throw new ConfigError(`Unknown profile '${options.profile}'`);
+  }
+
+  return {
+    projectPath,
+    toolConfig,
+    packages,
+    selection,
+    selected: selectPackages(packages, selection, logger, projectPath),
+    logger,
+    pmCommands,
+  };
+}
+
+/**
+ * Link the selected packages of a call, and their nested packages when
+ * linking recursively
+ */
+async function linkSelected(
+  run: Run,
+  options: LinkOptions
+): Promise<RunSummary> {
+  const { toolConfig } = run;
+
+  const concurrency = options.concurrency || toolConfig.concurrency || 1;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(
+      `Invalid concurrency '${concurrency}', expected a positive whole number`
+    );
+  }
+
+  const summary = await linkAllPackages(
+    run.selected,
+    run.pmCommands,
+    run.logger,
+    pick(options.resolveDependencies, toolConfig.resolveDependencies),
+    concurrency,
+    options.force === true,
+    pick(options.dedupePeers, toolConfig.dedupePeers),
+    pick(options.strict, toolConfig.strict)
+  );
+
+  if (summary.success && pick(options.recursive, toolConfig.recursiveLinks)) {
+    await linkRecursiveDependencies(run.selected, run.pmCommands, run.logger);
+  }
+
+  return summary;
+}
+
+/**
+ * Use an option when it is given, and the package.json setting otherwise
+ */
+function pick(
+  value: boolean | undefined,
+  fallback: boolean | undefined
+): boolean {
+  return value !== undefined ? value : fallback === true;
+}
@@ -0,0 +1,169 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { BuildCacheState, PackageConfig } from "./types";
+import { Logger } from "./logger";
+import { WORK_DIR } from "./config";
+import { listSourceFiles } from "./package-files";
+
+// Build cache filename inside the work directory
+export const BUILD_CACHE_FILE = "build-cache.json";
+
+// Version of the build cache format
+const BUILD_CACHE_VERSION = 1;
+
+// Lockfiles that pin the dependencies a package is built with
+const LOCKFILES = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+];
+
+/**
+ * Fingerprints of the inputs of each package at its last successful build
+ */
+export class BuildCache {
+  private state: BuildCacheState;
+  private force: boolean;
+  private projectPath: string;
+  // Fingerprints computed during this run, so dependents can include them
+  private fingerprints = new Map<string, string>();
+
+  // Packages whose build was skipped because nothing changed
+  readonly hits: string[] = [];
+
+  constructor(force: boolean = false, projectPath: string = process.cwd()) {
+    this.force = force;
+    this.projectPath = projectPath;
+    this.state = readBuildCache(projectPath);
+  }
+
+  /**
+   * Compute the fingerprint of a package's inputs
+   *
+   * The fingerprints of its local dependencies must have been computed first,
+   * so that a change in a dependency also rebuilds its dependents.
+   */
+  fingerprint(
+    packageName: string,
+    absPath: string,
+    config: PackageConfig,
+    dependencies: string[]
+  ): string {
+    const hash = crypto.createHash("sha256");
+    const add = (label: string, value: string | Buffer) => {
+      hash.update(`${label}\0`);
+      hash.update(value);
+      hash.update("\0");
+    };
+
+    add("path", absPath);
+    add("command", config.buildCommand || "");
+
+    for (const file of ["package.json", ...LOCKFILES]) {
+      const filePath = path.join(absPath, file);
+      if (fs.existsSync(filePath)) {
+        add(file, fs.readFileSync(filePath));
+      }
+    }
+
+    for (const file of listSourceFiles(absPath, config)) {
+      add(`file:${file}`, fs.readFileSync(path.join(absPath, file)));
+    }
+
+    for (const dependency of [...dependencies].sort()) {
+      add(`dependency:${dependency}`, this.fingerprints.get(dependency) || "");
+    }
+
+    const fingerprint = hash.digest("hex");
+    this.fingerprints.set(packageName, fingerprint);
+    return fingerprint;
+  }
+
+  /**
+   * Check whether a package was last built from the same inputs, and its
+   * output hasn't been deleted since
+   *
+   * Packages whose build didn't write to the output directory are only
+   * compared by their inputs.
+   */
+  isUpToDate(
+    packageName: string,
+    fingerprint: string,
+    outputDir: string
+  ): boolean {
+    const entry = this.state.packages[packageName];
+    return (
+      !this.force &&
+      !!entry &&
+      entry.fingerprint === fingerprint &&
+      (entry.output === false || hasFiles(outputDir))
+    );
+  }
+
+  /**
+   * Remember the inputs of a successful build
+   */
+  record(packageName: string, fingerprint: string, outputDir: string): void {
+    this.state.packages[packageName] = {
+      fingerprint,
+      builtAt: new Date().toISOString(),
+      output: hasFiles(outputDir),
+    };
+  }
+
+  /**
+   * Forget a package so that it is rebuilt next time
+   */
+  forget(packageName: string): void {
+    delete this.state.packages[packageName];
+  }
+
+  /**
+   * Write the cache to the project's work directory
+   */
+  save(logger: Logger): void {
+    const cachePath = path.join(this.projectPath, WORK_DIR, BUILD_CACHE_FILE);
+
+    try {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(
+        cachePath,
+        JSON.stringify(
+          { ...this.state, version: BUILD_CACHE_VERSION },
+          null,
+          2
+        ) + "\n"
+      );
+    } catch (error) {
+      logger.warn(`Could not write build cache: ${(error as Error).message}`);
+    }
+  }
+}
+
+function hasFiles(directory: string): boolean {
+  try {
+    return fs.readdirSync(directory).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the build cache of a project, starting over if it can't be used
+ */
+function readBuildCache(projectPath: string): BuildCacheState {
+  const cachePath = path.join(projectPath, WORK_DIR, BUILD_CACHE_FILE);
+
+  try {
+    const state = JSON.parse(fs.readFileSync(cachePath, "utf8"));
+    if (state.version === BUILD_CACHE_VERSION && state.packages) {
+      return state;
+    }
+  } catch {
+    // A missing or corrupt cache just means everything gets built
+  }
+
+  return { version: BUILD_CACHE_VERSION, packages: {} };
+}
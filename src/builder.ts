@@ -6,32 +6,50 @@ import {
   detectPackageManagerForPath,
   PackageManagerCommands,
 } from "./package-manager";
+import { BuildCache } from "./build-cache";
+import { getOutputDirectory } from "./package-files";
 
 /**
  * Build a package using its build script or a custom command
+ *
+ * With a build cache, the build is skipped when the package's inputs haven't
+ * changed since its last successful build. The local dependencies must have
+ * been built with the same cache first.
  */
-export function buildPackage(
+export async function buildPackage(
   packageName: string,
   config: PackageConfig,
   mainPmCommands: PackageManagerCommands,
-  logger: Logger
-): boolean {
+  logger: Logger,
+  buildCache?: BuildCache,
+  dependencies: string[] = []
+): Promise<boolean> {
   const absPath = path.isAbsolute(config.path)
     ? config.path
-    : path.resolve(process.cwd(), config.path);
+    : path.resolve(mainPmCommands.getProjectPath(), config.path);
+
+  // Builds that don't run a command are reported here, the others by runBuild
+  const fail = (error: string) => {
+    logger.error(error);
+    logger.step({
+      package: packageName,
+      phase: "build",
+      status: "failed",
+      error,
+    });
+    return false;
+  };
 
   // Check if path exists
   if (!fs.existsSync(absPath)) {
-    logger.error(`Package path does not exist: ${absPath}`);
-    return false;
+    return fail(`Package path does not exist: ${absPath}`);
   }
 
   const packageJsonPath = path.join(absPath, "package.json");
 
   // Check if package.json exists
   if (!fs.existsSync(packageJsonPath)) {
-    logger.error(`No package.json found in ${absPath}`);
-    return false;
+    return fail(`No package.json found in ${absPath}`);
   }
 
   // Parse package.json
@@ -39,16 +57,36 @@ export function buildPackage(
   try {
     packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
   } catch (error) {
-    logger.error(`Error parsing package.json: ${(error as Error).message}`);
-    return false;
+    return fail(`Error parsing package.json: ${(error as Error).message}`);
   }
 
+  // Dependents include the fingerprint even if there's nothing to build
+  const fingerprint =
+    buildCache &&
+    buildCache.fingerprint(packageName, absPath, config, dependencies);
+
   // Skip building if there's no build script and no custom command
   if (
     !config.buildCommand &&
     (!packageJson.scripts || !packageJson.scripts.build)
   ) {
     logger.info(`No build script found for ${packageName}, skipping build`);
+    logger.step({ package: packageName, phase: "build", status: "skipped" });
+    return true;
+  }
+
+  if (
+    buildCache &&
+    fingerprint &&
+    buildCache.isUpToDate(
+      packageName,
+      fingerprint,
+      getOutputDirectory(absPath, config)
+    )
+  ) {
+    logger.info(`${packageName} is unchanged, skipping build`);
+    buildCache.hits.push(packageName);
+    logger.step({ package: packageName, phase: "build", status: "unchanged" });
     return true;
   }
 
@@ -58,8 +96,30 @@ export function buildPackage(
   const packagePmCommands =
     packageManager === mainPmCommands.getPackageManager()
       ? mainPmCommands
-      : new PackageManagerCommands(packageManager, logger);
+      : new PackageManagerCommands(
+          packageManager,
+          logger,
+          mainPmCommands.getProjectPath()
+        );
 
   // Run build command using the package's own package manager
-  return packagePmCommands.runBuild(absPath, packageName, config.buildCommand);
+  const success = await packagePmCommands.runBuild(
+    absPath,
+    packageName,
+    config.buildCommand
+  );
+
+  if (buildCache && fingerprint) {
+    if (success) {
+      buildCache.record(
+        packageName,
+        fingerprint,
+        getOutputDirectory(absPath, config)
+      );
+    } else {
+      buildCache.forget(packageName);
+    }
+  }
+
+  return success;
 }
@@ -0,0 +1,1380 @@
+#!/usr/bin/env node
+
+import {
+  readConfig,
+  loadToolConfig,
+  applyPackageDefaults,
+  migrateConfig,
+  rereadConfig,
+  loadConfig,
+  findConfigFile,
+  getGlobalConfigPath,
+  ConfigError,
+  CONFIG_FILE,
+  LOCAL_CONFIG_FILE,
+} from "./config";
+import {
+  addConfigEntries,
+  checkConfigEntry,
+  findPackagesIn,
+  PackageCandidate,
+  readPackageName,
+  removeConfigEntries,
+} from "./config-editor";
+import { Logger, colors } from "./logger";
+import {
+  detectPackageManager,
+  PackageManagerCommands,
+} from "./package-manager";
+import {
+  linkAllPackages,
+  linkRecursiveDependencies,
+  unlinkAllPackages,
+  unlinkRecursiveDependencies,
+} from "./linker";
+import { WatchSession, watchPackages } from "./watcher";
+import { startWatchConsole } from "./console";
+import { readState } from "./state";
+import { readHostDependencies, validateConfig } from "./validate";
+import { collectStatus, isStatusClean, printStatusReport } from "./status";
+import { createReporter, REPORTERS, SilentReporter } from "./reporter";
+import { createRunLogDirectory } from "./run-logs";
+import { createLinkPlan } from "./plan";
+import { printTable } from "./table";
+import { readPackageJson } from "./package-files";
+import {
+  createLinkGraph,
+  formatGraphDot,
+  formatGraphMermaid,
+  GRAPH_FORMATS,
+  printGraphTree,
+} from "./graph";
+import { LocalPackages, PackageConfig, RunSummary, ToolConfig } from "./types";
+import {
+  isSelectionEmpty,
+  resolveSelection,
+  selectPackages,
+} from "./selection";
+import { execSync } from "child_process";
+import * as readline from "readline";
+import path from "path";
+import * as fs from "fs";
+
+/**
+ * Exit codes, documented in the help and the README
+ */
+const EXIT_CODES = {
+  success: 0,
+  problems: 1, // status found problems, an update failed, or an unexpected error
+  usage: 2, // Unknown command or option, or an invalid option value
+  config: 3, // Missing or invalid configuration
+  build: 4, // A package failed to build
+  link: 5, // A package failed to link or unlink
+};
+
+/**
+ * An option a command accepts
+ */
+interface OptionDefinition {
+  name: string;
+  alias?: string;
+  value?: string; // Name of the value, for options that take one
+  description: string;
+}
+
+/**
+ * A subcommand, with the options it accepts
+ */
+interface CommandDefinition {
+  name: string;
+  usage: string; // Arguments shown after the command name in its help
+  description: string;
+  options: OptionDefinition[];
+  takesNames?: boolean; // Whether package names can be given
+  run(args: ParsedArgs): number | Promise<number>;
+}
+
+/**
+ * Command line arguments parsed for a command
+ */
+interface ParsedArgs {
+  names: string[]; // Arguments that are not options
+  flags: Set<string>; // Options without a value that were given
+  values: Map<string, string[]>; // Values of options that take one
+}
+
+/**
+ * A command line that doesn't match what the command accepts
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const CWD_OPTION: OptionDefinition = {
+  name: "--cwd",
+  value: "dir",
+  description: "Run in another project",
+};
+const CONFIG_OPTION: OptionDefinition = {
+  name: "--config",
+  value: "file",
+  description:
+    "Use this configuration file, in the project it is in unless --cwd is given",
+};
+const HELP_OPTION: OptionDefinition = {
+  name: "--help",
+  alias: "-h",
+  description: "Show the help of this command",
+};
+const PROJECT_OPTIONS = [CWD_OPTION, CONFIG_OPTION, HELP_OPTION];
+
+const SELECTION_OPTIONS: OptionDefinition[] = [
+  {
+    name: "--only",
+    value: "names",
+    description: "Only process the given packages",
+  },
+  {
+    name: "--except",
+    value: "names",
+    description: "Process all packages except the given ones",
+  },
+  {
+    name: "--group",
+    value: "name",
+    description: "Only process packages in the given group",
+  },
+  {
+    name: "--profile",
+    value: "name",
+    description: "Only process the packages selected by a profile",
+  },
+];
+
+const OUTPUT_OPTIONS: OptionDefinition[] = [
+  {
+    name: "--reporter",
+    value: "name",
+    description: `How to report progress: ${REPORTERS.join(", ")}`,
+  },
+  {
+    name: "--verbose",
+    description: "Show the output of build and link commands as they run",
+  },
+  { name: "--no-spinner", description: "Log plain messages without spinners" },
+];
+
+const RECURSIVE_OPTION: OptionDefinition = {
+  name: "--recursive",
+  alias: "-r",
+  description: "Also handle dependencies linked inside linked packages",
+};
+
+const LINK_OPTIONS: OptionDefinition[] = [
+  {
+    name: "--deps",
+    alias: "-d",
+    description: "Resolve dependencies and build in the correct order",
+  },
+  RECURSIVE_OPTION,
+  {
+    name: "--concurrency",
+    value: "n",
+    description: "Build up to n independent packages at a time",
+  },
+  {
+    name: "--force",
+    description: "Rebuild packages even if they haven't changed",
+  },
+  {
+    name: "--dedupe-peers",
+    description: "Make linked packages use the project's peer dependencies",
+  },
+  {
+    name: "--strict",
+    description: "Don't link packages whose versions don't match the project",
+  },
+  {
+    name: "--dry-run",
+    description: "Show the build and link commands without running them",
+  },
+  ...SELECTION_OPTIONS,
+  ...OUTPUT_OPTIONS,
+  ...PROJECT_OPTIONS,
+];
+
+const COMMANDS: CommandDefinition[] = [
+  {
+    name: "link",
+    usage: "[options]",
+    description: "Build and link the configured packages (the default command)",
+    options: [
+      {
+        name: "--watch",
+        alias: "-w",
+        description: "Keep watching the packages after linking them",
+      },
+      ...LINK_OPTIONS,
+    ],
+    run: (args) => runLink(args, args.flags.has("--watch")),
+  },
+  {
+    name: "watch",
+    usage: "[options]",
+    description:
+      "Link the packages, then rebuild and relink them when they change (press h for keys)",
+    options: LINK_OPTIONS,
+    run: (args) => runLink(args, true),
+  },
+  {
+    name: "unlink",
+    usage: "[name...] [options]",
+    description: "Unlink packages and reinstall their registry versions",
+    options: [
+      RECURSIVE_OPTION,
+      ...SELECTION_OPTIONS,
+      ...OUTPUT_OPTIONS,
+      ...PROJECT_OPTIONS,
+    ],
+    takesNames: true,
+    run: runUnlink,
+  },
+  {
+    name: "status",
+    usage: "[name...] [options]",
+    description: "Check that node_modules matches the configuration",
+    options: [
+      { name: "--json", description: "Print the status as JSON" },
+      RECURSIVE_OPTION,
+      ...PROJECT_OPTIONS,
+    ],
+    takesNames: true,
+    run: runStatus,
+  },
+  {
+    name: "list",
+    usage: "[options]",
+    description: "List the configured packages",
+    options: [
+      { name: "--json", description: "Print the packages as JSON" },
+      ...PROJECT_OPTIONS,
+    ],
+    run: runList,
+  },
+  {
+    name: "graph",
+    usage: "[options]",
+    description:
+      "Show how the project and its local packages depend on each other",
+    options: [
+      {
+        name: "--format",
+        value: "name",
+        description: `Output format: ${GRAPH_FORMATS.join(", ")}`,
+      },
+      RECURSIVE_OPTION,
+      ...PROJECT_OPTIONS,
+    ],
+    run: runGraph,
+  },
+  {
+    name: "add",
+    usage: "<path...> [options]",
+    description:
+      "Add a package, or the packages in a directory the project depends on, to the configuration",
+    options: [
+      {
+        name: "--build",
+        value: "command",
+        description: "Build the package with this command",
+      },
+      {
+        name: "--watch",
+        value: "patterns",
+        description: "Watch these comma separated patterns for changes",
+      },
+      {
+        name: "--yes",
+        alias: "-y",
+        description: "Add every package in a directory without asking",
+      },
+      {
+        name: "--force",
+        description: "Add packages the project doesn't depend on",
+      },
+      ...PROJECT_OPTIONS,
+    ],
+    takesNames: true,
+    run: runAdd,
+  },
+  {
+    name: "remove",
+    usage: "<name...> [options]",
+    description: "Remove packages from the configuration",
+    options: [
+      {
+        name: "--unlink",
+        description: "Unlink the packages before removing them",
+      },
+      ...PROJECT_OPTIONS,
+    ],
+    takesNames: true,
+    run: runRemove,
+  },
+  {
+    name: "validate",
+    usage: "[options]",
+    description: "Check the configuration without linking anything",
+    options: PROJECT_OPTIONS,
+    run: runValidate,
+  },
+  {
+    name: "migrate-config",
+    usage: "[options]",
+    description: "Convert .localpackages to localpackages.config.json",
+    options: [CWD_OPTION, HELP_OPTION],
+    run: (args) =>
+      migrateConfig(resolveProject(args).path)
+        ? EXIT_CODES.success
+        : EXIT_CODES.config,
+  },
+  {
+    name: "update",
+    usage: "",
+    description: "Update local-linker to the latest version",
+    options: [HELP_OPTION],
+    run: () => (updateLocalLinker() ? EXIT_CODES.success : EXIT_CODES.problems),
+  },
+];
+
+async function main(args: string[]): Promise<number> {
+  const [first] = args;
+
+  if (first === "--version" || first === "-v") {
+    showVersion();
+    return EXIT_CODES.success;
+  }
+  if (first === "--help" || first === "-h" || first === "help") {
+    const command = args[1] && findCommand(args[1]);
+    if (command) {
+      showCommandHelp(command);
+    } else {
+      showHelp();
+    }
+    return EXIT_CODES.success;
+  }
+
+  // Options without a command link the packages, as does --update without
+  // anything else, for compatibility
+  const named = first !== undefined && !first.startsWith("-");
+  const command = findCommand(
+    first === "--update" ? "update" : named ? first : "link"
+  );
+
+  try {
+    if (!command) {
+      throw new UsageError(`Unknown command '${first}'`);
+    }
+
+    const parsed = parseArgs(
+      command,
+      named || first === "--update" ? args.slice(1) : args
+    );
+    if (parsed.flags.has("--help")) {
+      showCommandHelp(command);
+      return EXIT_CODES.success;
+    }
+
+    return await command.run(parsed);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${colors.red}${error.message}${colors.reset}`);
+      console.error(
+        `Run 'local-linker ${
+          command ? `${command.name} ` : ""
+        }--help' for usage`
+      );
+      return EXIT_CODES.usage;
+    }
+    if (error instanceof ConfigError) {
+      console.error(`${colors.red}${error.message}${colors.reset}`);
+      return EXIT_CODES.config;
+    }
+    throw error;
+  }
+}
+
+function findCommand(name: string): CommandDefinition | undefined {
+  return COMMANDS.find((command) => command.name === name);
+}
+
+/**
+ * Parse the arguments after the command name, rejecting anything the command
+ * doesn't accept
+ *
+ * Options that take a value are given as "--option value" or
+ * "--option=value", and can be repeated.
+ */
+function parseArgs(command: CommandDefinition, args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { names: [], flags: new Set(), values: new Map() };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+
+    if (!arg.startsWith("-")) {
+      if (!command.takesNames) {
+        throw new UsageError(
+          `Unexpected argument '${arg}' for ${command.name}`
+        );
+      }
+      parsed.names.push(arg);
+      continue;
+    }
+
+    const [given, inlineValue] = arg.includes("=")
+      ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)]
+      : [arg, undefined];
+    const option = command.options.find(
+      (candidate) => candidate.name === given || candidate.alias === given
+    );
+    if (!option) {
+      throw new UsageError(`Unknown option '${given}' for ${command.name}`);
+    }
+
+    if (!option.value) {
+      if (inlineValue !== undefined) {
+        throw new UsageError(`${option.name} doesn't take a value`);
+      }
+      parsed.flags.add(option.name);
+      continue;
+    }
+
+    const value = inlineValue !== undefined ? inlineValue : args[++index];
+    if (value === undefined || value === "") {
+      throw new UsageError(`${option.name} needs a ${option.value}`);
+    }
+    parsed.values.set(option.name, [
+      ...(parsed.values.get(option.name) || []),
+      value,
+    ]);
+  }
+
+  return parsed;
+}
+
+/**
+ * Get the comma separated values given for an option, which can be repeated
+ */
+function getOptionValues(args: ParsedArgs, option: string): string[] {
+  return (args.values.get(option) || [])
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the value given for an option, the last one if it was repeated
+ */
+function getOptionValue(args: ParsedArgs, option: string): string | undefined {
+  const values = args.values.get(option);
+  return values ? values[values.length - 1] : undefined;
+}
+
+/**
+ * Find the project to run in from --cwd and --config
+ */
+function resolveProject(args: ParsedArgs): {
+  path: string;
+  configFile?: string;
+} {
+  const cwd = getOptionValue(args, "--cwd");
+  const config = getOptionValue(args, "--config");
+  const configFile = config ? path.resolve(config) : undefined;
+
+  const projectPath = cwd
+    ? path.resolve(cwd)
+    : configFile
+    ? path.dirname(configFile)
+    : process.cwd();
+  if (!fs.existsSync(projectPath) || !fs.statSync(projectPath).isDirectory()) {
+    throw new UsageError(`${projectPath} is not a directory`);
+  }
+
+  return { path: projectPath, configFile };
+}
+
+/**
+ * Create the logger for the reporter and output options
+ *
+ * Returns whether the reporter is machine-readable too, since those need
+ * stdout to themselves.
+ */
+function createLogger(
+  args: ParsedArgs,
+  toolConfig: ToolConfig,
+  projectPath: string,
+  writeLogs: boolean = true
+): { logger: Logger; machineReadable: boolean } {
+  const reporterName = getOptionValue(args, "--reporter") || "pretty";
+
+  // Streamed command output would break up spinners
+  const verbose = args.flags.has("--verbose");
+
+  // Determine if we should use spinners
+  const useSpinner =
+    args.flags.has("--no-spinner") || verbose
+      ? false
+      : toolConfig.useSpinner !== false;
+
+  const reporter = createReporter(reporterName, useSpinner);
+  if (!reporter) {
+    throw new UsageError(
+      `Unknown reporter '${reporterName}', expected one of: ${REPORTERS.join(
+        ", "
+      )}`
+    );
+  }
+
+  return {
+    logger: new Logger(useSpinner, reporter, {
+      verbose,
+      logDirectory: writeLogs ? createRunLogDirectory(projectPath) : undefined,
+    }),
+    machineReadable: reporterName !== "pretty",
+  };
+}
+
+/**
+ * Narrow down the packages with the selection options and profile
+ *
+ * Returns null if the profile doesn't exist.
+ */
+function selectFromArgs(
+  args: ParsedArgs,
+  localPackages: LocalPackages,
+  toolConfig: ToolConfig,
+  logger: Logger,
+  projectPath: string
+) {
+  const selection = resolveSelection(
+    {
+      only: getOptionValues(args, "--only"),
+      except: getOptionValues(args, "--except"),
+      groups: getOptionValues(args, "--group"),
+    },
+    getOptionValue(args, "--profile"),
+    toolConfig,
+    logger
+  );
+  if (!selection) {
+    return null;
+  }
+
+  return {
+    selection,
+    selected: selectPackages(localPackages, selection, logger, projectPath),
+  };
+}
+
+/**
+ * Get the exit code of a link run that didn't succeed
+ */
+function getFailureCode(summary: RunSummary): number {
+  return summary.failedBuilds.length > 0 ? EXIT_CODES.build : EXIT_CODES.link;
+}
+
+/**
+ * Build and link the packages, and keep watching them with `watch`
+ */
+async function runLink(args: ParsedArgs, watch: boolean): Promise<number> {
+  const project = resolveProject(args);
+  const toolConfig = loadToolConfig(project.path);
+
+  // Dry runs only show what would happen, so they leave the logs alone
+  const dryRun = args.flags.has("--dry-run");
+  const { logger, machineReadable } = createLogger(
+    args,
+    toolConfig,
+    project.path,
+    !dryRun
+  );
+
+  // Load configuration
+  const configured = readConfig(
+    machineReadable,
+    project.path,
+    project.configFile
+  );
+  if (!configured) {
+    return EXIT_CODES.config;
+  }
+  const localPackages = applyPackageDefaults(configured, toolConfig);
+  if (Object.keys(localPackages).length === 0) {
+    return EXIT_CODES.success;
+  }
+
+  // Detect package manager
+  const packageManager = detectPackageManager(project.path);
+  logger.info(`Detected package manager: ${packageManager}`);
+
+  // Create package manager commands
+  const pmCommands = new PackageManagerCommands(
+    packageManager,
+    logger,
+    project.path
+  );
+
+  // Narrow down the packages to process
+  const selected = selectFromArgs(
+    args,
+    localPackages,
+    toolConfig,
+    logger,
+    project.path
+  );
+  if (!selected) {
+    return EXIT_CODES.config;
+  }
+  const selectedPackages = selected.selected;
+  if (Object.keys(selectedPackages).length === 0) {
+    return EXIT_CODES.success;
+  }
+
+  // Determine if we should resolve dependencies
+  const resolveDependencies =
+    args.flags.has("--deps") || toolConfig.resolveDependencies === true;
+
+  // Determine if we should recursively link dependencies
+  const recursive =
+    args.flags.has("--recursive") || toolConfig.recursiveLinks === true;
+
+  const force = args.flags.has("--force");
+  const strict = args.flags.has("--strict") || toolConfig.strict === true;
+
+  // Show what linking would do instead of doing it
+  if (dryRun) {
+    const plan = createLinkPlan(
+      selectedPackages,
+      pmCommands,
+      logger,
+      resolveDependencies,
+      recursive,
+      force,
+      strict
+    );
+    logger.plan(plan);
+    return plan.problems.length > 0 ? EXIT_CODES.config : EXIT_CODES.success;
+  }
+
+  // Determine how many packages can build at the same time
+  const concurrencyOption = getOptionValue(args, "--concurrency");
+  const concurrency =
+    concurrencyOption !== undefined
+      ? Number(concurrencyOption)
+      : toolConfig.concurrency || 1;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    logger.error(
+      `Invalid concurrency '${
+        concurrencyOption !== undefined
+          ? concurrencyOption
+          : toolConfig.concurrency
+      }', expected a positive whole number`
+    );
+    return concurrencyOption !== undefined
+      ? EXIT_CODES.usage
+      : EXIT_CODES.config;
+  }
+
+  // Link all packages
+  const summary = await linkAllPackages(
+    selectedPackages,
+    pmCommands,
+    logger,
+    resolveDependencies,
+    concurrency,
+    force,
+    args.flags.has("--dedupe-peers") || toolConfig.dedupePeers === true,
+    strict
+  );
+  if (!summary.success) {
+    return getFailureCode(summary);
+  }
+
+  // Handle recursive linking if requested
+  if (recursive) {
+    await linkRecursiveDependencies(selectedPackages, pmCommands, logger);
+  }
+
+  if (watch) {
+    // Watch mode picks up configuration changes with the same selection
+    const reloadPackages = () => {
+      const packages = rereadConfig(logger, project.path, project.configFile);
+      return (
+        packages &&
+        selectPackages(
+          applyPackageDefaults(packages, toolConfig),
+          selected.selection,
+          logger,
+          project.path
+        )
+      );
+    };
+
+    // Watch with keyboard commands when running in a terminal
+    const session = watchPackages(
+      selectedPackages,
+      pmCommands,
+      logger,
+      reloadPackages,
+      project.configFile
+    );
+    if (session) {
+      closeOnSignals(session);
+    }
+    if (session && !machineReadable) {
+      startWatchConsole(session);
+    }
+  }
+
+  return EXIT_CODES.success;
+}
+
+/**
+ * Stop the dev commands when watch mode is interrupted, as signals end the
+ * process without the exit event
+ */
+function closeOnSignals(session: WatchSession): void {
+  const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+  signals.forEach((signal) => {
+    process.once(signal, () => {
+      session.close().finally(() => process.kill(process.pid, signal));
+    });
+  });
+}
+
+/**
+ * Unlink packages and reinstall their registry versions
+ */
+async function runUnlink(args: ParsedArgs): Promise<number> {
+  const project = resolveProject(args);
+  const toolConfig = loadToolConfig(project.path);
+  const { logger, machineReadable } = createLogger(
+    args,
+    toolConfig,
+    project.path
+  );
+
+  // Packages removed from the config can still be unlinked from the state file
+  const configured = readConfig(
+    machineReadable,
+    project.path,
+    project.configFile
+  );
+  const state = readState(project.path);
+  const hasLinks = !!state && Object.keys(state.packages).length > 0;
+  if (!configured && !hasLinks) {
+    return EXIT_CODES.config;
+  }
+
+  const localPackages = applyPackageDefaults(configured || {}, toolConfig);
+  if (Object.keys(localPackages).length === 0 && !hasLinks) {
+    return EXIT_CODES.success;
+  }
+
+  const packageManager = detectPackageManager(project.path);
+  logger.info(`Detected package manager: ${packageManager}`);
+  const pmCommands = new PackageManagerCommands(
+    packageManager,
+    logger,
+    project.path
+  );
+
+  const selected = selectFromArgs(
+    args,
+    localPackages,
+    toolConfig,
+    logger,
+    project.path
+  );
+  if (!selected) {
+    return EXIT_CODES.config;
+  }
+
+  let packageNames = args.names;
+  if (packageNames.length === 0 && !isSelectionEmpty(selected.selection)) {
+    packageNames = Object.keys(selected.selected);
+  }
+
+  // Unlink nested packages first so their registry versions are restored
+  if (args.flags.has("--recursive") || toolConfig.recursiveLinks === true) {
+    await unlinkRecursiveDependencies(
+      localPackages,
+      packageNames,
+      pmCommands,
+      logger
+    );
+  }
+
+  const summary = unlinkAllPackages(
+    localPackages,
+    packageNames,
+    pmCommands,
+    logger
+  );
+  return summary.success ? EXIT_CODES.success : EXIT_CODES.link;
+}
+
+/**
+ * Check node_modules against the configuration
+ *
+ * Nothing else is logged before the report, so the JSON output stays
+ * parseable.
+ */
+function runStatus(args: ParsedArgs): number {
+  const project = resolveProject(args);
+  const toolConfig = loadToolConfig(project.path);
+  const json = args.flags.has("--json");
+
+  const loaded = readConfig(json, project.path, project.configFile);
+  if (!loaded) {
+    return EXIT_CODES.config;
+  }
+  const configured = applyPackageDefaults(loaded, toolConfig);
+  const packages =
+    args.names.length > 0
+      ? args.names.reduce<LocalPackages>((acc, name) => {
+          if (configured[name]) {
+            acc[name] = configured[name];
+          } else {
+            console.error(`${name} is not a configured package`);
+          }
+          return acc;
+        }, {})
+      : configured;
+
+  const report = collectStatus(
+    packages,
+    args.flags.has("--recursive") || toolConfig.recursiveLinks === true,
+    project.path
+  );
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printStatusReport(report);
+  }
+  return isStatusClean(report) ? EXIT_CODES.success : EXIT_CODES.problems;
+}
+
+/**
+ * List the configured packages with the settings that apply to them
+ */
+function runList(args: ParsedArgs): number {
+  const project = resolveProject(args);
+  const json = args.flags.has("--json");
+
+  const loaded = readConfig(json, project.path, project.configFile);
+  if (!loaded) {
+    return EXIT_CODES.config;
+  }
+  const packages = applyPackageDefaults(loaded, loadToolConfig(project.path));
+
+  if (json) {
+    console.log(JSON.stringify(packages, null, 2));
+    return EXIT_CODES.success;
+  }
+
+  printTable(
+    "Configured packages",
+    ["Package", "Path", "Strategy", "Build", "Groups"],
+    Object.entries(packages).map(([name, config]) => {
+      const { scripts } =
+        readPackageJson(path.resolve(project.path, config.path)) || {};
+      return [
+        name,
+        config.path,
+        config.strategy || "link",
+        config.devCommand
+          ? `dev: ${config.devCommand}`
+          : config.buildCommand ||
+            (scripts && scripts.build ? "build script" : "-"),
+        (config.groups || []).join(", ") || "-",
+      ];
+    })
+  );
+  return EXIT_CODES.success;
+}
+
+/**
+ * Check the configuration without linking anything
+ */
+function runValidate(args: ParsedArgs): number {
+  const project = resolveProject(args);
+  return validateConfig(new Logger(false), project.path, project.configFile)
+    ? EXIT_CODES.success
+    : EXIT_CODES.config;
+}
+
+/**
+ * Print the dependency graph of the project and its local packages
+ *
+ * Only the tree format adds anything besides the graph to stdout, so the
+ * other formats can be piped into files and other tools.
+ */
+function runGraph(args: ParsedArgs): number {
+  const project = resolveProject(args);
+  const format = getOptionValue(args, "--format") || "tree";
+  if (!GRAPH_FORMATS.includes(format)) {
+    throw new UsageError(
+      `Unknown format '${format}', expected one of: ${GRAPH_FORMATS.join(", ")}`
+    );
+  }
+
+  const toolConfig = loadToolConfig(project.path);
+  const loaded = readConfig(
+    format !== "tree",
+    project.path,
+    project.configFile
+  );
+  if (!loaded) {
+    return EXIT_CODES.config;
+  }
+
+  const graph = createLinkGraph(
+    applyPackageDefaults(loaded, toolConfig),
+    new Logger(false, new SilentReporter()),
+    project.path,
+    args.flags.has("--recursive") || toolConfig.recursiveLinks === true
+  );
+
+  if (format === "tree") {
+    printGraphTree(graph);
+    return EXIT_CODES.success;
+  }
+
+  if (format === "json") {
+    console.log(JSON.stringify(graph, null, 2));
+  } else {
+    process.stdout.write(
+      format === "dot" ? formatGraphDot(graph) : formatGraphMermaid(graph)
+    );
+    graph.problems.forEach((problem) => console.error(problem));
+  }
+  return EXIT_CODES.success;
+}
+
+/**
+ * Add packages to the configuration file of the project
+ *
+ * A path can be a package, or a directory of packages to pick from. Only
+ * packages the project depends on are added, unless --force is given.
+ */
+async function runAdd(args: ParsedArgs): Promise<number> {
+  const project = resolveProject(args);
+  const logger = new Logger(false);
+  if (args.names.length === 0) {
+    throw new UsageError("add needs the path of a package or a directory");
+  }
+
+  const hostDependencies = readHostDependencies(project.path);
+  if (!hostDependencies) {
+    logger.error(`No readable package.json found in ${project.path}`);
+    return EXIT_CODES.config;
+  }
+
+  const { entries } = loadConfig(project.path, project.configFile);
+  const isConfigured = (name: string) =>
+    entries.some((entry) => entry.name === name);
+  const force = args.flags.has("--force");
+  const watchPatterns = getOptionValues(args, "--watch");
+  const options: Omit<PackageConfig, "path"> = {
+    buildCommand: getOptionValue(args, "--build"),
+    watchPatterns: watchPatterns.length > 0 ? watchPatterns : undefined,
+  };
+
+  const packages: PackageCandidate[] = [];
+  for (const target of args.names) {
+    const absPath = path.resolve(target);
+    if (!fs.existsSync(absPath) || !fs.statSync(absPath).isDirectory()) {
+      throw new UsageError(`${target} is not a directory`);
+    }
+
+    const name = readPackageName(absPath);
+    if (!name) {
+      // A directory of packages, offer the ones the project depends on
+      const candidates = findPackagesIn(absPath).filter(
+        (candidate) =>
+          (force || hostDependencies.has(candidate.name)) &&
+          !isConfigured(candidate.name)
+      );
+      if (candidates.length === 0) {
+        logger.warn(
+          `No packages in ${target} that the project depends on and that aren't configured yet`
+        );
+      }
+      packages.push(
+        ...(await pickPackages(candidates, args.flags.has("--yes")))
+      );
+    } else if (isConfigured(name)) {
+      logger.error(`${name} is already configured`);
+      return EXIT_CODES.config;
+    } else if (!hostDependencies.has(name) && !force) {
+      logger.error(
+        `The project doesn't depend on ${name}, add it to package.json first or use --force`
+      );
+      return EXIT_CODES.config;
+    } else {
+      packages.push({ name, path: absPath });
+    }
+  }
+
+  if (packages.length === 0) {
+    return EXIT_CODES.success;
+  }
+
+  // Paths are written relative to the project, like they are resolved
+  const configPath =
+    findConfigFile(project.path, project.configFile) ||
+    path.resolve(project.path, project.configFile || CONFIG_FILE);
+  const newEntries = packages.map((candidate) => ({
+    name: candidate.name,
+    config: {
+      path: path.relative(project.path, candidate.path) || ".",
+      ...options,
+    },
+  }));
+
+  // Options the file can't hold are a mistake on the command line
+  for (const { name, config } of newEntries) {
+    const problem = checkConfigEntry(configPath, name, config);
+    if (problem) {
+      throw new UsageError(problem);
+    }
+  }
+  addConfigEntries(configPath, newEntries);
+
+  logger.success(
+    `Added ${packages
+      .map((candidate) => candidate.name)
+      .join(", ")} to ${path.relative(process.cwd(), configPath)}`
+  );
+  return EXIT_CODES.success;
+}
+
+/**
+ * Ask which of the packages found in a directory to add
+ */
+async function pickPackages(
+  candidates: PackageCandidate[],
+  all: boolean
+): Promise<PackageCandidate[]> {
+  if (all || candidates.length === 0) {
+    return candidates;
+  }
+  if (!process.stdin.isTTY) {
+    throw new UsageError(
+      `Found ${candidates
+        .map((candidate) => candidate.name)
+        .join(", ")}, use --yes to add them without asking`
+    );
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const picked: PackageCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const answer = await new Promise<string>((resolve) =>
+      rl.question(
+        `Add ${candidate.name} (${path.relative(
+          process.cwd(),
+          candidate.path
+        )})? [Y/n] `,
+        resolve
+      )
+    );
+    if (!/^n/i.test(answer.trim())) {
+      picked.push(candidate);
+    }
+  }
+
+  rl.close();
+  return picked;
+}
+
+/**
+ * Remove packages from the configuration files of the project that define
+ * them, unlinking them first with --unlink
+ */
+async function runRemove(args: ParsedArgs): Promise<number> {
+  const project = resolveProject(args);
+  const logger = new Logger(false);
+  if (args.names.length === 0) {
+    throw new UsageError("remove needs the name of a package");
+  }
+
+  const { files, layers, entries } = loadConfig(
+    project.path,
+    project.configFile
+  );
+  const unknown = args.names.filter(
+    (name) => !entries.some((entry) => entry.name === name)
+  );
+  if (unknown.length > 0) {
+    logger.error(`Not configured: ${unknown.join(", ")}`);
+    return EXIT_CODES.config;
+  }
+
+  // Unlink while the packages are still configured, and keep them if that fails
+  if (args.flags.has("--unlink")) {
+    const code = await runUnlink({
+      names: args.names,
+      flags: new Set(),
+      values: args.values,
+    });
+    if (code !== EXIT_CODES.success) {
+      return code;
+    }
+  }
+
+  // An entry can be defined in several layers, which are all edited except
+  // the personal one shared by every project
+  files.forEach((file, index) => {
+    const names = args.names.filter((name) =>
+      layers[index].entries.some((entry) => entry.name === name)
+    );
+    if (names.length === 0) {
+      return;
+    }
+
+    if (file === getGlobalConfigPath()) {
+      logger.warn(
+        `${file} is shared by all projects, add !${
+          names[0]
+        } to ${LOCAL_CONFIG_FILE} to disable ${names.join(", ")} here`
+      );
+      return;
+    }
+
+    removeConfigEntries(file, names);
+    logger.success(
+      `Removed ${names.join(", ")} from ${path.relative(process.cwd(), file)}`
+    );
+  });
+
+  return EXIT_CODES.success;
+}
+
+/**
+ * Format the options of a command as aligned help lines
+ */
+function formatOptions(options: OptionDefinition[]): string {
+  const labels = options.map(
+    (option) =>
+      option.name +
+      (option.alias ? `, ${option.alias}` : "") +
+      (option.value ? ` <${option.value}>` : "")
+  );
+  const width = Math.max(...labels.map((label) => label.length));
+
+  return options
+    .map(
+      (option, index) =>
+        `  ${labels[index].padEnd(width)}  ${option.description}`
+    )
+    .join("\n");
+}
+
+/**
+ * Show the usage and options of a single command
+ */
+function showCommandHelp(command: CommandDefinition): void {
+  console.log(`
+${colors.yellow}Usage:${colors.reset} local-linker ${command.name} ${
+    command.usage
+  }
+
+${command.description}
+
+${colors.yellow}Options:${colors.reset}
+${formatOptions(command.options)}
+`);
+}
+
+function showHelp(): void {
+  const width = Math.max(...COMMANDS.map((command) => command.name.length));
+
+  console.log(`
+${colors.cyan}@lume-io/local-linker${colors.reset}
+
+A magical tool for easily linking local packages in your Node.js projects.
+
+${colors.yellow}Usage:${colors.reset}
+  local-linker [command] [options]
+
+${colors.yellow}Commands:${colors.reset}
+${COMMANDS.map(
+  (command) => `  ${command.name.padEnd(width)}  ${command.description}`
+).join("\n")}
+
+  Run 'local-linker <command> --help' to see the options of a command.
+
+${colors.yellow}Examples:${colors.reset}
+  local-linker                     Link all packages defined in .localpackages
+  local-linker watch --deps        Build in dependency order and watch for changes
+  local-linker --only a,b --force  Rebuild and link only the given packages
+  local-linker unlink ui-library   Unlink a package and reinstall its registry version
+  local-linker status --cwd ../app Check the links of another project
+  local-linker add ../packages     Pick packages from a directory to add to the configuration
+  local-linker graph --format dot  Export the dependency graph for Graphviz
+
+${colors.yellow}Global options:${colors.reset}
+${formatOptions([
+  CWD_OPTION,
+  CONFIG_OPTION,
+  { name: "--version", alias: "-v", description: "Show the current version" },
+  { name: "--help", alias: "-h", description: "Show this help message" },
+])}
+
+${colors.yellow}Exit codes:${colors.reset}
+  0  Success
+  1  status found problems, the update failed, or an unexpected error
+  2  Unknown command or option, or an invalid option value
+  3  Missing or invalid configuration
+  4  A package failed to build
+  5  A package failed to link or unlink, or --strict found a version mismatch
+
+${colors.yellow}Configuration:${colors.reset}
+  Create a .localpackages file in your project root with the format:
+  
+  package-name = /path/to/package [build-command] [watch:[pattern1,pattern2]] [ignore:pattern]
+  
+  Examples:
+  ui-library = ../ui-lib
+  api-client = /path/to/api-client [npm run build:dev]
+  utils = ../utils [pnpm compile] [watch:src/**/*.ts,tests/**/*.ts]
+  generated = ../generated [ignore:src/generated]
+  types = ../types [dev:tsc --watch] [output:lib]
+  components = ../components [strategy:pack] [groups:ui]
+  icons = ../icons [strategy:direct]
+  
+  Lines starting with # are treated as comments.
+
+  Personal overrides go in .localpackages.local and in
+  ~/.config/local-linker/packages. Paths can use ~ and $VARIABLES, and
+  "!package-name" disables an inherited entry.
+
+  Alternatively, create a localpackages.config.json (or .js/.ts) file:
+
+  {
+    "packages": {
+      "ui-library": "../ui-lib",
+      "api-client": { "path": "../api-client", "buildCommand": "npm run build:dev" }
+    }
+  }
+  
+${colors.yellow}Additional Configuration:${colors.reset}
+  You can also configure options in your package.json:
+  
+  {
+    "localLinker": {
+      "useSpinner": true,
+      "resolveDependencies": true,
+      "recursiveLinks": true,
+      "strategy": "link",
+      "concurrency": 4,
+      "dedupePeers": true,
+      "strict": false,
+      "profiles": {
+        "ui": { "groups": ["ui"], "except": ["icons"] }
+      }
+    }
+  }
+  `);
+}
+
+function showVersion(): void {
+  try {
+    // Find the package.json file - look in the directory where the script is located
+    const packageJsonPath = path.resolve(__dirname, "..", "package.json");
+
+    if (fs.existsSync(packageJsonPath)) {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+      console.log(`@lume-io/local-linker v${packageJson.version}`);
+    } else {
+      // Fallback if package.json can't be found
+      console.log("Version information not available");
+    }
+  } catch (error) {
+    console.error(
+      "Error reading version information:",
+      (error as Error).message
+    );
+  }
+}
+
+/**
+ * Update the local-linker package to the latest version
+ */
+function updateLocalLinker(): boolean {
+  const logger = new Logger(true);
+  logger.info("Checking for updates...");
+
+  try {
+    // Determine which package manager installed the tool
+    const packageName = "@lume-io/local-linker";
+    const isGloballyInstalled =
+      process.env._ && process.env._.includes("local-linker");
+
+    if (isGloballyInstalled) {
+      // Try to detect which package manager was used to install the tool
+      const whichResult = execSync("which local-linker").toString().trim();
+
+      let updateCommand: string;
+      if (whichResult.includes("yarn")) {
+        updateCommand = `yarn global add ${packageName}@latest`;
+      } else if (whichResult.includes("pnpm")) {
+        updateCommand = `pnpm add -g ${packageName}@latest`;
+      } else {
+        // Default to npm
+        updateCommand = `npm install -g ${packageName}@latest`;
+      }
+
+      logger.info(`Updating using command: ${updateCommand}`);
+      execSync(updateCommand, { stdio: "inherit" });
+      logger.success("Update completed successfully!");
+    } else {
+      logger.info(
+        "It seems you are running local-linker directly from a local directory."
+      );
+      logger.info(`To update, run: npm install -g ${packageName}@latest`);
+    }
+    return true;
+  } catch (error) {
+    logger.error(`Update failed: ${(error as Error).message}`);
+    logger.info(
+      `You can manually update with: npm install -g @lume-io/local-linker@latest`
+    );
+    return false;
+  }
+}
+
+// Run the main function
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    // Anything not handled by a command is a bug, so keep the stack trace
+    console.error(
+      `${colors.red}${
+        error instanceof Error ? error.stack || error.message : error
+      }${colors.reset}`
+    );
+    process.exitCode = EXIT_CODES.problems;
+  });
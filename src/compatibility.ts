@@ -0,0 +1,79 @@
+import * as path from "path";
+import * as semver from "semver";
+import { DependencyField, PackageInfo, PackageJson } from "./types";
+import { readPackageJson } from "./package-files";
+
+// Dependency fields of the host package.json, in the order they are searched
+const HOST_DEPENDENCY_FIELDS: DependencyField[] = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+  "peerDependencies",
+];
+
+/**
+ * Find the ways a local package differs from what the project would get from
+ * the registry, so that problems show up before it is published
+ *
+ * Checks that the package's version satisfies the range the project declares
+ * for it, and that the ranges the package declares for its own dependencies
+ * accept the versions installed in the project. Ranges that aren't semver
+ * ranges, such as git URLs or workspace protocols, are skipped.
+ */
+export function checkCompatibility(
+  info: PackageInfo,
+  projectPath: string = process.cwd()
+): string[] {
+  const problems: string[] = [];
+  const hostPackageJson = readPackageJson(projectPath) || {};
+
+  const hostRange = getDeclaredRange(hostPackageJson, info.name);
+  if (info.version && hostRange && !satisfies(info.version, hostRange)) {
+    problems.push(
+      `${info.name} ${info.version} doesn't satisfy ${hostRange} declared in package.json`
+    );
+  }
+
+  for (const [dependency, range] of Object.entries(info.ranges)) {
+    const installed = (
+      readPackageJson(
+        path.join(projectPath, "node_modules", ...dependency.split("/"))
+      ) || {}
+    ).version;
+
+    if (installed && !satisfies(installed, range)) {
+      problems.push(
+        `${info.name} requires ${dependency}@${range}, but the project has ${installed}`
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Get the range a package.json declares for a dependency
+ */
+function getDeclaredRange(
+  packageJson: PackageJson,
+  dependency: string
+): string | undefined {
+  for (const field of HOST_DEPENDENCY_FIELDS) {
+    const dependencies = packageJson[field];
+    if (dependencies && dependencies[dependency]) {
+      return dependencies[dependency];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a version against a range, treating anything that isn't a semver
+ * range as satisfied
+ */
+function satisfies(version: string, range: string): boolean {
+  if (!semver.valid(version) || !semver.validRange(range)) {
+    return true;
+  }
+  return semver.satisfies(version, range, { includePrerelease: true });
+}
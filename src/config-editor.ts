@@ -0,0 +1,276 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PackageConfig } from "./types";
+import { parseLegacyConfig, toJsonPackage } from "./config-formats";
+import { ConfigError } from "./config";
+import { readPackageJson } from "./package-files";
+
+/**
+ * A package found on disk that could be added to the configuration
+ */
+export interface PackageCandidate {
+  name: string;
+  path: string; // Absolute path of the package directory
+}
+
+/**
+ * Read the name of the package in a directory
+ *
+ * Returns null if the directory has no package.json with a name.
+ */
+export function readPackageName(packagePath: string): string | null {
+  const packageJson = readPackageJson(packagePath);
+  return packageJson && typeof packageJson.name === "string" && packageJson.name
+    ? packageJson.name
+    : null;
+}
+
+/**
+ * Find the packages in a directory of packages, including those one level
+ * further down in @scope directories
+ */
+export function findPackagesIn(directory: string): PackageCandidate[] {
+  const candidates: PackageCandidate[] = [];
+
+  const visit = (dir: string, depth: number) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (
+        !entry.isDirectory() ||
+        entry.name.startsWith(".") ||
+        entry.name === "node_modules"
+      ) {
+        continue;
+      }
+
+      const packagePath = path.join(dir, entry.name);
+      const name = readPackageName(packagePath);
+      if (name) {
+        candidates.push({ name, path: packagePath });
+      } else if (depth === 0 && entry.name.startsWith("@")) {
+        visit(packagePath, depth + 1);
+      }
+    }
+  };
+  visit(directory, 0);
+
+  return candidates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Format a package as a line of the legacy format, the inverse of
+ * parsePackageLine
+ */
+export function formatPackageLine(name: string, config: PackageConfig): string {
+  const parts = [`${name} = ${config.path}`];
+
+  if (config.buildCommand) {
+    parts.push(`[${config.buildCommand}]`);
+  }
+  if (config.watchPatterns && config.watchPatterns.length > 0) {
+    parts.push(`[watch:${config.watchPatterns.join(",")}]`);
+  }
+  if (config.ignore && config.ignore.length > 0) {
+    parts.push(`[ignore:${config.ignore.join(",")}]`);
+  }
+  if (config.devCommand) {
+    parts.push(`[dev:${config.devCommand}]`);
+  }
+  if (config.outputDir) {
+    parts.push(`[output:${config.outputDir}]`);
+  }
+  if (config.strategy) {
+    parts.push(`[strategy:${config.strategy}]`);
+  }
+  if (config.groups && config.groups.length > 0) {
+    parts.push(`[groups:${config.groups.join(",")}]`);
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Check that a package can be written to a configuration file as it is
+ *
+ * Legacy files have no way to escape brackets or commas in options, so a
+ * line that wouldn't be read back as the same package is rejected. Returns
+ * the reason the package can't be written, if any.
+ */
+export function checkConfigEntry(
+  configPath: string,
+  name: string,
+  config: PackageConfig
+): string | undefined {
+  if (isJsonFile(configPath)) {
+    return undefined;
+  }
+
+  // Compare the JSON forms, with their keys in the same order
+  const describe = (packageConfig: PackageConfig) => {
+    const entry = toJsonPackage(packageConfig);
+    return JSON.stringify(
+      entry,
+      typeof entry === "string" ? undefined : Object.keys(entry).sort()
+    );
+  };
+
+  const line = formatPackageLine(name, config);
+  const { entries, issues } = parseLegacyConfig(configPath, line);
+  if (
+    issues.length > 0 ||
+    entries.length !== 1 ||
+    entries[0].name !== name ||
+    describe(entries[0].config) !== describe(config)
+  ) {
+    return `${name} can't be written to ${path.basename(
+      configPath
+    )} as '${line}', since it would be read back differently. Use a JSON configuration file instead`;
+  }
+  return undefined;
+}
+
+/**
+ * Add packages to the end of a configuration file, creating it if needed
+ *
+ * Legacy files are appended to, so comments and the order of existing lines
+ * are kept. JSON files are rewritten with the packages added last.
+ * JavaScript and TypeScript files can't be edited safely and throw a
+ * ConfigError, as do packages the file already defines or can't hold (see
+ * checkConfigEntry).
+ */
+export function addConfigEntries(
+  configPath: string,
+  packages: { name: string; config: PackageConfig }[]
+): void {
+  if (isJsonFile(configPath)) {
+    editJsonPackages(configPath, (existing) => {
+      for (const { name, config } of packages) {
+        if (existing[name] !== undefined) {
+          throw new ConfigError(
+            `${name} is already defined in ${path.basename(configPath)}`
+          );
+        }
+        existing[name] = toJsonPackage(config);
+      }
+    });
+    return;
+  }
+  assertLegacyFile(configPath);
+
+  let content = fs.existsSync(configPath)
+    ? fs.readFileSync(configPath, "utf8")
+    : "";
+  const { entries } = parseLegacyConfig(configPath, content);
+
+  for (const { name, config } of packages) {
+    const existing = entries.find((entry) => entry.name === name);
+    if (existing) {
+      throw new ConfigError(
+        `${name} is already defined on line ${existing.line} of ${path.basename(
+          configPath
+        )}`
+      );
+    }
+
+    const problem = checkConfigEntry(configPath, name, config);
+    if (problem) {
+      throw new ConfigError(problem);
+    }
+  }
+
+  // Keep the line endings the file already uses
+  const newline = content.includes("\r\n") ? "\r\n" : "\n";
+  if (content && !content.endsWith("\n")) {
+    content += newline;
+  }
+  content += packages
+    .map(({ name, config }) => formatPackageLine(name, config) + newline)
+    .join("");
+
+  fs.writeFileSync(configPath, content);
+}
+
+/**
+ * Remove packages from a configuration file
+ *
+ * Only the lines defining the packages are removed from legacy files, and
+ * the names that weren't defined in the file are returned.
+ */
+export function removeConfigEntries(
+  configPath: string,
+  names: string[]
+): string[] {
+  if (isJsonFile(configPath)) {
+    let missing: string[] = [];
+    editJsonPackages(configPath, (existing) => {
+      missing = names.filter((name) => existing[name] === undefined);
+      names.forEach((name) => delete existing[name]);
+    });
+    return missing;
+  }
+  assertLegacyFile(configPath);
+
+  const content = fs.readFileSync(configPath, "utf8");
+  const { entries } = parseLegacyConfig(configPath, content);
+  const removedLines = new Set(
+    entries
+      .filter((entry) => names.includes(entry.name))
+      .map((entry) => entry.line)
+  );
+
+  const lines = content.split("\n");
+  fs.writeFileSync(
+    configPath,
+    lines.filter((_, index) => !removedLines.has(index + 1)).join("\n")
+  );
+
+  return names.filter((name) => !entries.some((entry) => entry.name === name));
+}
+
+function isJsonFile(configPath: string): boolean {
+  return configPath.endsWith(".json");
+}
+
+function assertLegacyFile(configPath: string): void {
+  if (/\.(js|ts)$/.test(configPath)) {
+    throw new ConfigError(
+      `${path.basename(
+        configPath
+      )} is code and can't be edited automatically, change it by hand`
+    );
+  }
+}
+
+/**
+ * Change the packages of a JSON configuration file, keeping its other fields
+ * and indentation
+ */
+function editJsonPackages(
+  configPath: string,
+  edit: (packages: Record<string, unknown>) => void
+): void {
+  const content = fs.existsSync(configPath)
+    ? fs.readFileSync(configPath, "utf8")
+    : "{}";
+
+  let document: any;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(
+      `${path.basename(configPath)} is not valid JSON: ${
+        (error as Error).message
+      }`
+    );
+  }
+
+  if (!document.packages || typeof document.packages !== "object") {
+    document.packages = {};
+  }
+  edit(document.packages);
+
+  const indent = content.match(/^[ \t]+(?=")/m);
+  fs.writeFileSync(
+    configPath,
+    JSON.stringify(document, null, indent ? indent[0] : 2) + "\n"
+  );
+}
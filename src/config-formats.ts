@@ -0,0 +1,497 @@
+import * as path from "path";
+import {
+  ConfigIssue,
+  LinkStrategy,
+  PackageConfig,
+  ParsedConfig,
+  SourceLocation,
+} from "./types";
+import { escapePointer, JsonSyntaxError, parseJson } from "./json-source";
+import { CONFIG_SCHEMA_URL, loadConfigSchema, validateSchema } from "./schema";
+
+// Supported link strategies
+export const LINK_STRATEGIES: LinkStrategy[] = ["link", "pack", "direct"];
+
+/**
+ * A line of the legacy format that couldn't be parsed
+ */
+interface LineError {
+  message: string;
+  column: number;
+}
+
+/**
+ * Parse the legacy line-based format
+ * Format: package-name = path [build-command] [watch:pattern1,pattern2] [ignore:pattern1,pattern2] [dev:command] [output:dir] [strategy:name] [groups:group1,group2]
+ *
+ * Lines of the form `$NAME = value` define variables, and `!package-name`
+ * disables a package inherited from another configuration layer.
+ */
+export function parseLegacyConfig(file: string, content: string): ParsedConfig {
+  const result = emptyParsedConfig();
+  const { entries, issues } = result;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      return;
+    }
+
+    if (trimmed.startsWith("!")) {
+      const name = trimmed.slice(1).trim();
+      if (!name || /\s/.test(name)) {
+        issues.push({
+          file,
+          line: index + 1,
+          column: line.indexOf("!") + 1,
+          message: "Expected '!package-name' to disable a package",
+          severity: "error",
+        });
+      } else {
+        result.disabled.push({ name, file, line: index + 1 });
+      }
+      return;
+    }
+
+    const variableMatch = trimmed.match(/^\$(\w+)\s*=\s*(.*)$/);
+    if (variableMatch) {
+      result.variables.push({
+        name: variableMatch[1],
+        value: variableMatch[2].trim(),
+        file,
+        line: index + 1,
+      });
+      return;
+    }
+
+    const parsed = parsePackageLine(line);
+    if (Array.isArray(parsed)) {
+      const [name, config] = parsed;
+      entries.push({ name, config, file, line: index + 1 });
+    } else {
+      issues.push({
+        file,
+        line: index + 1,
+        column: parsed.column,
+        message: parsed.message,
+        severity: "error",
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Create a parse result without any contents
+ */
+export function emptyParsedConfig(): ParsedConfig {
+  return { entries: [], issues: [], disabled: [], variables: [] };
+}
+
+/**
+ * Parse a package line from the legacy config file
+ */
+function parsePackageLine(line: string): [string, PackageConfig] | LineError {
+  const firstColumn = line.search(/\S/) + 1;
+
+  const separator = line.indexOf("=");
+  if (separator === -1) {
+    return {
+      message: "Expected 'package-name = path'",
+      column: firstColumn,
+    };
+  }
+
+  const packageName = line.slice(0, separator).trim();
+  if (!packageName) {
+    return { message: "Missing package name before '='", column: firstColumn };
+  } else if (/\s/.test(packageName)) {
+    return {
+      message: `Invalid package name '${packageName}'`,
+      column: firstColumn,
+    };
+  }
+
+  // The path runs until the first build command or option
+  const rest = line.slice(separator + 1);
+  const groupMatch = rest.match(/\s+(?=\[|watch:\[)/);
+  const pathEnd =
+    separator + 1 + (groupMatch ? groupMatch.index! : rest.length);
+  const packagePath = line.slice(separator + 1, pathEnd).trim();
+
+  if (!packagePath) {
+    return {
+      message: `Missing path for ${packageName}`,
+      column: separator + 2,
+    };
+  }
+
+  const config: PackageConfig = { path: packagePath };
+  let hasBuildCommand = false;
+  let index = pathEnd;
+
+  while (true) {
+    while (index < line.length && /\s/.test(line[index])) {
+      index++;
+    }
+    if (index >= line.length) {
+      break;
+    }
+
+    // Watch patterns can also be written as watch:[pattern1,pattern2]
+    const groupStart = index;
+    const bareWatch = line.startsWith("watch:[", index);
+    if (bareWatch) {
+      index += "watch:".length;
+    }
+
+    if (line[index] !== "[") {
+      return {
+        message: `Unexpected '${line[index]}', expected '[' to start a build command or option`,
+        column: index + 1,
+      };
+    }
+
+    const close = findClosingBracket(line, index);
+    if (close === -1) {
+      return { message: "Missing closing ']'", column: index + 1 };
+    }
+
+    const content = line.slice(index + 1, close);
+    index = close + 1;
+
+    const option = (bareWatch ? `watch:${content}` : content).match(
+      /^\s*(watch|ignore|dev|output|strategy|groups):([\s\S]*)$/
+    );
+
+    if (option) {
+      const error = applyOption(config, option[1], option[2].trim());
+      if (error) {
+        return { message: error, column: groupStart + 1 };
+      }
+    } else if (hasBuildCommand) {
+      return {
+        message: "Only one build command is allowed",
+        column: groupStart + 1,
+      };
+    } else {
+      hasBuildCommand = true;
+      config.buildCommand = content.trim() || undefined;
+    }
+  }
+
+  return [packageName, config];
+}
+
+/**
+ * Find the bracket closing the one at the given index, allowing nested
+ * brackets and quoted strings inside build commands
+ */
+function findClosingBracket(line: string, openIndex: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = openIndex; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Apply a key:value option to a package configuration
+ *
+ * Returns an error message if the option is invalid.
+ */
+function applyOption(
+  config: PackageConfig,
+  key: string,
+  value: string
+): string | undefined {
+  if (key === "watch") {
+    // Allow [watch:[a,b]] as well as [watch:a,b]
+    const list = value.replace(/^\[([\s\S]*)\]$/, "$1");
+    const patterns = splitList(list);
+    if (patterns.length === 0) {
+      return "watch: needs at least one pattern";
+    }
+    config.watchPatterns = patterns;
+  } else if (key === "ignore") {
+    const patterns = splitList(value.replace(/^\[([\s\S]*)\]$/, "$1"));
+    if (patterns.length === 0) {
+      return "ignore: needs at least one pattern";
+    }
+    config.ignore = patterns;
+  } else if (key === "dev") {
+    if (!value) {
+      return "dev: needs a command";
+    }
+    config.devCommand = value;
+  } else if (key === "output") {
+    if (!value) {
+      return "output: needs a directory";
+    }
+    config.outputDir = value;
+  } else if (key === "strategy") {
+    if (!LINK_STRATEGIES.includes(value as LinkStrategy)) {
+      return `Unknown strategy '${value}', expected one of: ${LINK_STRATEGIES.join(
+        ", "
+      )}`;
+    }
+    config.strategy = value as LinkStrategy;
+  } else if (key === "groups") {
+    const groups = splitList(value);
+    if (groups.length === 0) {
+      return "groups: needs at least one group";
+    }
+    config.groups = groups;
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a comma separated list, keeping commas inside braces such as
+ * src/**\/*.{ts,tsx} together
+ */
+function splitList(list: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of list) {
+    if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth = Math.max(0, depth - 1);
+    }
+
+    if (char === "," && depth === 0) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a JSON configuration file
+ */
+export function parseJsonConfig(file: string, content: string): ParsedConfig {
+  try {
+    const document = parseJson(content);
+    return readStructuredConfig(file, document.value, (pointer, atKey) =>
+      atKey
+        ? document.keyLocations.get(pointer)
+        : document.locations.get(pointer)
+    );
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      const result = emptyParsedConfig();
+      result.issues.push({
+        file,
+        ...error.location,
+        message: error.message,
+        severity: "error",
+      });
+      return result;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load a JavaScript or TypeScript configuration file
+ */
+export function loadScriptConfig(file: string): ParsedConfig {
+  try {
+    if (file.endsWith(".ts")) {
+      registerTypeScript(file);
+    }
+
+    // Always read the latest version of the file
+    delete require.cache[require.resolve(file)];
+    const exported = require(file);
+    const value =
+      exported && exported.__esModule && "default" in exported
+        ? exported.default
+        : exported;
+
+    return readStructuredConfig(file, value, () => undefined);
+  } catch (error) {
+    const result = emptyParsedConfig();
+    result.issues.push({
+      file,
+      message: `Could not load configuration: ${(error as Error).message}`,
+      severity: "error",
+    });
+    return result;
+  }
+}
+
+/**
+ * Let require() load TypeScript files using the project's ts-node
+ */
+function registerTypeScript(file: string): void {
+  let tsNodePath: string;
+  try {
+    tsNodePath = require.resolve("ts-node", { paths: [path.dirname(file)] });
+  } catch {
+    throw new Error(
+      "TypeScript configuration files require ts-node to be installed in the project"
+    );
+  }
+
+  require(tsNodePath).register({
+    transpileOnly: true,
+    compilerOptions: { module: "commonjs" },
+  });
+}
+
+/**
+ * Validate a structured configuration and turn it into entries
+ */
+function readStructuredConfig(
+  file: string,
+  value: unknown,
+  locate: (pointer: string, atKey?: boolean) => SourceLocation | undefined
+): ParsedConfig {
+  const result = emptyParsedConfig();
+  const errors = validateSchema(value, loadConfigSchema());
+  result.issues = errors.map((error) => ({
+    file,
+    ...locate(error.pointer, error.atKey),
+    message: error.message,
+    severity: "error",
+  }));
+
+  // Packages with errors are skipped, the others remain usable
+  const invalidPackages = new Set<string>();
+  let structureValid = true;
+
+  for (const error of errors) {
+    const match = error.pointer.match(/^\/packages\/([^/]+)/);
+    if (match) {
+      invalidPackages.add(match[1].replace(/~1/g, "/").replace(/~0/g, "~"));
+    } else {
+      structureValid = false;
+    }
+  }
+
+  if (!structureValid) {
+    return result;
+  }
+
+  const { packages, variables = {} } = value as {
+    packages: Record<string, unknown>;
+    variables?: Record<string, string>;
+  };
+
+  for (const [name, variableValue] of Object.entries(variables)) {
+    const location = locate(`/variables/${escapePointer(name)}`, true);
+    result.variables.push({
+      name,
+      value: variableValue,
+      file,
+      line: location && location.line,
+    });
+  }
+
+  for (const [name, packageValue] of Object.entries(packages)) {
+    if (invalidPackages.has(name)) {
+      continue;
+    }
+
+    const location = locate(`/packages/${escapePointer(name)}`, true);
+    const line = location && location.line;
+
+    if (packageValue === false) {
+      result.disabled.push({ name, file, line });
+      continue;
+    }
+
+    const config: PackageConfig =
+      typeof packageValue === "string"
+        ? { path: packageValue }
+        : { ...(packageValue as PackageConfig) };
+
+    result.entries.push({ name, config, file, line });
+  }
+
+  return result;
+}
+
+/**
+ * Serialize a parsed configuration as a JSON configuration file
+ *
+ * Variables go in the variables object and disabled packages are written as
+ * false, so the file means the same as the one it was parsed from.
+ */
+export function serializeJsonConfig(parsed: ParsedConfig): string {
+  const variables: Record<string, string> = {};
+  for (const variable of parsed.variables) {
+    variables[variable.name] = variable.value;
+  }
+
+  const packages: Record<string, string | PackageConfig | false> = {};
+
+  for (const { name, config } of parsed.entries) {
+    packages[name] = toJsonPackage(config);
+  }
+
+  for (const { name } of parsed.disabled) {
+    packages[name] = false;
+  }
+
+  return (
+    JSON.stringify(
+      {
+        $schema: CONFIG_SCHEMA_URL,
+        ...(parsed.variables.length > 0 && { variables }),
+        packages,
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+/**
+ * Convert a package to its entry in a JSON configuration file
+ *
+ * Unset options are dropped, so packages with only a path use the path
+ * shorthand.
+ */
+export function toJsonPackage(config: PackageConfig): string | PackageConfig {
+  const defined = Object.entries(config).reduce<Record<string, unknown>>(
+    (acc, [key, value]) => {
+      if (value !== undefined) {
+        acc[key] = value;
+      }
+      return acc;
+    },
+    {}
+  ) as unknown as PackageConfig;
+
+  return Object.keys(defined).length === 1 ? defined.path : defined;
+}
@@ -0,0 +1,152 @@
+import * as os from "os";
+import * as path from "path";
+import {
+  ConfigEntry,
+  ConfigIssue,
+  LoadedConfig,
+  PackageConfig,
+  ParsedConfig,
+} from "./types";
+
+// Built-in variable pointing at the project the configuration belongs to
+export const PROJECT_ROOT_VARIABLE = "PROJECT_ROOT";
+
+/**
+ * Merge configuration layers, from lowest to highest precedence
+ *
+ * Entries with the same name override the fields of inherited entries, and
+ * disabled entries remove inherited ones. Paths are expanded once all
+ * variables are known.
+ */
+export function mergeConfigLayers(
+  files: string[],
+  layers: ParsedConfig[],
+  projectPath: string
+): LoadedConfig {
+  const issues: ConfigIssue[] = layers.flatMap((layer) => layer.issues);
+  const variables = resolveVariables(layers, projectPath, issues);
+  const merged = new Map<string, ConfigEntry>();
+
+  for (const layer of layers) {
+    for (const entry of layer.entries) {
+      const inherited = merged.get(entry.name);
+      merged.set(entry.name, {
+        ...entry,
+        config: inherited
+          ? mergePackageConfig(inherited.config, entry.config)
+          : entry.config,
+      });
+    }
+
+    for (const disabled of layer.disabled) {
+      merged.delete(disabled.name);
+    }
+  }
+
+  const entries: ConfigEntry[] = [];
+
+  for (const entry of merged.values()) {
+    try {
+      entries.push({
+        ...entry,
+        config: {
+          ...entry.config,
+          path: expandPath(entry.config.path, variables),
+        },
+      });
+    } catch (error) {
+      issues.push({
+        file: entry.file,
+        line: entry.line,
+        message: `${(error as Error).message} in path of ${entry.name}`,
+        severity: "error",
+      });
+    }
+  }
+
+  return { files, layers, entries, issues };
+}
+
+/**
+ * Override the fields of an inherited package configuration
+ */
+function mergePackageConfig(
+  base: PackageConfig,
+  override: PackageConfig
+): PackageConfig {
+  const result = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) {
+      (result as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the variables defined across all layers
+ *
+ * Later layers override earlier ones, and each value can use the variables
+ * defined before it.
+ */
+function resolveVariables(
+  layers: ParsedConfig[],
+  projectPath: string,
+  issues: ConfigIssue[]
+): Map<string, string> {
+  const variables = new Map<string, string>([
+    [PROJECT_ROOT_VARIABLE, projectPath],
+  ]);
+
+  for (const layer of layers) {
+    for (const variable of layer.variables) {
+      try {
+        variables.set(variable.name, expandPath(variable.value, variables));
+      } catch (error) {
+        issues.push({
+          file: variable.file,
+          line: variable.line,
+          message: `${(error as Error).message} in $${variable.name}`,
+          severity: "error",
+        });
+      }
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Expand a leading ~ and $NAME or ${NAME} variables in a path
+ *
+ * Environment variables take precedence over variables defined in
+ * configuration files, so the shared file can provide defaults.
+ */
+export function expandPath(
+  value: string,
+  variables: Map<string, string>
+): string {
+  let result = value;
+
+  if (result === "~" || result.startsWith("~/") || result.startsWith("~\\")) {
+    result = path.join(os.homedir(), result.slice(1));
+  }
+
+  return result.replace(
+    /\$(?:\{(\w+)\}|(\w+))/g,
+    (match, braced: string | undefined, bare: string | undefined) => {
+      const name = (braced || bare) as string;
+      const resolved =
+        process.env[name] !== undefined
+          ? process.env[name]
+          : variables.get(name);
+
+      if (resolved === undefined) {
+        throw new Error(`Undefined variable $${name}`);
+      }
+      return resolved;
+    }
+  );
+}
@@ -1,106 +1,400 @@
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import { LocalPackages, PackageConfig, ToolConfig } from "./types";
-import { log } from "./logger";
+import {
+  ConfigIssue,
+  LoadedConfig,
+  LocalPackages,
+  ParsedConfig,
+  ToolConfig,
+} from "./types";
+import { log, Logger } from "./logger";
+import {
+  loadScriptConfig,
+  parseJsonConfig,
+  parseLegacyConfig,
+  serializeJsonConfig,
+} from "./config-formats";
+import { mergeConfigLayers } from "./config-layers";
 
 // Configuration filename
 export const CONFIG_FILE = ".localpackages";
 
+// Structured configuration filenames, in order of precedence
+export const STRUCTURED_CONFIG_FILES = [
+  "localpackages.config.json",
+  "localpackages.config.js",
+  "localpackages.config.ts",
+];
+
+// Personal overrides that are not committed
+export const LOCAL_CONFIG_FILE = ".localpackages.local";
+
+// Directory for files the tool generates inside the project
+export const WORK_DIR = ".local-linker";
+
 /**
- * Parse a package line from the config file
- * Format: package-name = path [build-command] [watch:pattern1,pattern2]
+ * Configuration that can't be used, thrown by the programmatic API
  */
-function parsePackageLine(line: string): [string, PackageConfig] | null {
-  const parts = line.split("=").map((p) => p.trim());
-  if (parts.length !== 2 || !parts[0] || !parts[1]) {
-    return null;
+export class ConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(message: string, issues: ConfigIssue[] = []) {
+    super(message);
+    this.name = "ConfigError";
+    this.issues = issues;
   }
+}
+
+/**
+ * Get the path of the user-global configuration file
+ */
+export function getGlobalConfigPath(): string {
+  const configHome =
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(configHome, "local-linker", "packages");
+}
 
-  const packageName = parts[0];
-  const packageInfo = parts[1];
+/**
+ * Get every path a configuration layer of a project can be read from, whether
+ * it exists or not
+ *
+ * A `configFile` given explicitly replaces the project's own configuration
+ * file, here and in the functions below.
+ */
+export function getConfigPaths(
+  projectPath: string = process.cwd(),
+  configFile?: string
+): string[] {
+  const projectFiles = configFile
+    ? [configFile, LOCAL_CONFIG_FILE]
+    : [CONFIG_FILE, ...STRUCTURED_CONFIG_FILES, LOCAL_CONFIG_FILE];
+
+  return [
+    getGlobalConfigPath(),
+    ...projectFiles.map((file) => path.resolve(projectPath, file)),
+  ];
+}
 
-  // Check for build command in square brackets
-  const buildCommandMatch = packageInfo.match(/^(.*?)\s+\[(.*?)\](?:\s+|$)/);
-  let packagePath = packageInfo;
-  let buildCommand: string | undefined = undefined;
+/**
+ * Find the configuration file of a project, preferring structured files
+ */
+export function findConfigFile(
+  projectPath: string = process.cwd(),
+  configFile?: string
+): string | null {
+  if (configFile) {
+    const configPath = path.resolve(projectPath, configFile);
+    return fs.existsSync(configPath) ? configPath : null;
+  }
 
-  if (buildCommandMatch) {
-    packagePath = buildCommandMatch[1].trim();
-    buildCommand = buildCommandMatch[2].trim() || undefined;
+  for (const file of [...STRUCTURED_CONFIG_FILES, CONFIG_FILE]) {
+    const configPath = path.resolve(projectPath, file);
+    if (fs.existsSync(configPath)) {
+      return configPath;
+    }
   }
 
-  // Check for watch patterns in watch:[] format
-  const watchPatternsMatch = packageInfo.match(/\s+watch:\[(.*?)\](?:\s+|$)/);
-  let watchPatterns: string[] | undefined = undefined;
+  return null;
+}
+
+/**
+ * Find all configuration files that apply to a project, from lowest to
+ * highest precedence: the user-global file, the project file and the
+ * personal .localpackages.local file
+ *
+ * The user-global file only applies to projects that have a configuration
+ * file of their own.
+ */
+export function findConfigLayers(
+  projectPath: string = process.cwd(),
+  configFile?: string
+): string[] {
+  const projectFiles = [
+    findConfigFile(projectPath, configFile),
+    path.resolve(projectPath, LOCAL_CONFIG_FILE),
+  ].filter((file): file is string => !!file && fs.existsSync(file));
 
-  if (watchPatternsMatch) {
-    packagePath = packagePath.replace(watchPatternsMatch[0], "").trim();
-    watchPatterns = watchPatternsMatch[1].split(",").map((p) => p.trim());
+  if (projectFiles.length === 0) {
+    return [];
   }
 
-  return [
-    packageName,
-    {
-      path: packagePath,
-      buildCommand,
-      watchPatterns,
-    },
-  ];
+  const globalPath = getGlobalConfigPath();
+  return fs.existsSync(globalPath)
+    ? [globalPath, ...projectFiles]
+    : projectFiles;
+}
+
+/**
+ * Find the configuration files of a local package that links packages of its
+ * own
+ *
+ * The user-global file is left out, as it applies to the projects the user
+ * works on rather than to every package linked into them.
+ */
+export function findNestedConfigLayers(packagePath: string): string[] {
+  const files = findConfigLayers(packagePath);
+  return files[0] === getGlobalConfigPath() ? files.slice(1) : files;
 }
 
 /**
- * Read the local packages configuration file
+ * Read and merge the configuration layers of a local package, without the
+ * user-global file
  */
-export function readConfig(): LocalPackages {
+export function loadNestedConfig(packagePath: string): LoadedConfig {
+  const files = findNestedConfigLayers(packagePath);
+  const layers = files.map((file) => parseConfigFile(file));
+  return mergeConfigLayers(files, layers, packagePath);
+}
+
+/**
+ * Read the packages a local package links into itself
+ *
+ * Errors are reported and leave the package without nested packages.
+ */
+export function readNestedConfig(
+  packagePath: string,
+  logger: Logger
+): LocalPackages {
   try {
-    const configPath = path.resolve(process.cwd(), CONFIG_FILE);
-    if (!fs.existsSync(configPath)) {
-      log(
+    const { entries, issues } = loadNestedConfig(packagePath);
+    const errors = issues.filter((issue) => issue.severity === "error");
+    if (errors.length > 0) {
+      errors.forEach((issue) => logger.error(formatConfigIssue(issue)));
+      return {};
+    }
+
+    return entries.reduce<LocalPackages>((acc, entry) => {
+      acc[entry.name] = entry.config;
+      return acc;
+    }, {});
+  } catch (error) {
+    logger.error(
+      `Error reading configuration of ${packagePath}: ${
+        (error as Error).message
+      }`
+    );
+    return {};
+  }
+}
+
+/**
+ * Read and merge all configuration layers of a project
+ */
+export function loadConfig(
+  projectPath: string = process.cwd(),
+  configFile?: string
+): LoadedConfig {
+  const files = findConfigLayers(projectPath, configFile);
+  const layers = files.map((file) => parseConfigFile(file));
+  return mergeConfigLayers(files, layers, projectPath);
+}
+
+/**
+ * Parse a configuration file in any of the supported formats
+ */
+export function parseConfigFile(configPath: string): ParsedConfig {
+  if (configPath.endsWith(".js") || configPath.endsWith(".ts")) {
+    return loadScriptConfig(configPath);
+  }
+
+  const content = fs.readFileSync(configPath, "utf8");
+  return configPath.endsWith(".json")
+    ? parseJsonConfig(configPath, content)
+    : parseLegacyConfig(configPath, content);
+}
+
+/**
+ * Format a configuration issue as file:line:column: message
+ */
+export function formatConfigIssue(issue: ConfigIssue): string {
+  const location = [
+    path.relative(process.cwd(), issue.file) || issue.file,
+    issue.line,
+    issue.column,
+  ]
+    .filter((part) => part !== undefined)
+    .join(":");
+
+  return `${location}: ${issue.message}`;
+}
+
+/**
+ * Read the local packages configuration file of a project
+ *
+ * With `quiet`, only errors are reported. Returns null when no configuration
+ * is found or it has errors, once they are reported.
+ */
+export function readConfig(
+  quiet: boolean = false,
+  projectPath: string = process.cwd(),
+  configFile?: string
+): LocalPackages | null {
+  // Quiet callers only want errors, on stderr so they don't mix with output
+  const report: typeof log = quiet
+    ? (message, color) => {
+        if (color === "red") {
+          console.error(message);
+        }
+      }
+    : log;
+
+  try {
+    const { files, entries, issues } = loadConfig(projectPath, configFile);
+    if (configFile && !findConfigFile(projectPath, configFile)) {
+      report(`Configuration file ${configFile} doesn't exist`, "red");
+      return null;
+    }
+    if (files.length === 0) {
+      report(
         `No ${CONFIG_FILE} file found. Create one to specify local dependencies.`,
-        "yellow"
+        "red"
       );
-      log(
+      report(
         `Format: package-name = /path/to/package [build-command] [watch:[pattern1,pattern2]]`,
         "yellow"
       );
-      return {};
+      return null;
     }
 
-    const config = fs
-      .readFileSync(configPath, "utf8")
-      .split("\n")
-      .filter((line) => line.trim() && !line.startsWith("#"))
-      .reduce<LocalPackages>((acc, line) => {
-        const result = parsePackageLine(line);
-        if (result) {
-          const [packageName, packageConfig] = result;
-          acc[packageName] = packageConfig;
-        }
-        return acc;
-      }, {});
+    const configPath = findConfigFile(projectPath, configFile);
+    if (
+      !configFile &&
+      configPath &&
+      path.basename(configPath) !== CONFIG_FILE &&
+      fs.existsSync(path.resolve(projectPath, CONFIG_FILE))
+    ) {
+      report(
+        `Using ${path.basename(configPath)}, ${CONFIG_FILE} is ignored`,
+        "yellow"
+      );
+    }
+
+    const configName = files
+      .map((file) => path.relative(process.cwd(), file) || file)
+      .join(", ");
+
+    for (const issue of issues) {
+      report(
+        formatConfigIssue(issue),
+        issue.severity === "error" ? "red" : "yellow"
+      );
+    }
+    if (issues.some((issue) => issue.severity === "error")) {
+      report(`Fix the errors in ${configName} before continuing`, "red");
+      return null;
+    }
+
+    const config = entries.reduce<LocalPackages>((acc, entry) => {
+      acc[entry.name] = entry.config;
+      return acc;
+    }, {});
 
     if (Object.keys(config).length === 0) {
-      log(`No packages defined in ${CONFIG_FILE}`, "yellow");
+      report(`No packages defined in ${configName}`, "yellow");
     } else {
-      log(
-        `Found ${Object.keys(config).length} local packages in ${CONFIG_FILE}`,
+      report(
+        `Found ${Object.keys(config).length} local packages in ${configName}`,
         "green"
       );
     }
 
     return config;
   } catch (error) {
-    log(`Error reading configuration: ${(error as Error).message}`, "red");
-    return {};
+    report(`Error reading configuration: ${(error as Error).message}`, "red");
+    return null;
   }
 }
 
 /**
- * Load tool configuration options from package.json
+ * Read the configuration again while the tool is running
+ *
+ * Returns null when no configuration is found or it has errors, so callers
+ * can keep using the packages they have.
  */
-export function loadToolConfig(): ToolConfig {
+export function rereadConfig(
+  logger: Logger,
+  projectPath: string = process.cwd(),
+  configFile?: string
+): LocalPackages | null {
   try {
-    const packageJsonPath = path.resolve(process.cwd(), "package.json");
+    const { files, entries, issues } = loadConfig(projectPath, configFile);
+    if (files.length === 0) {
+      logger.warn(`No ${CONFIG_FILE} file found`);
+      return null;
+    }
+
+    for (const issue of issues) {
+      if (issue.severity === "error") {
+        logger.error(formatConfigIssue(issue));
+      } else {
+        logger.warn(formatConfigIssue(issue));
+      }
+    }
+    if (issues.some((issue) => issue.severity === "error")) {
+      return null;
+    }
+
+    return entries.reduce<LocalPackages>((acc, entry) => {
+      acc[entry.name] = entry.config;
+      return acc;
+    }, {});
+  } catch (error) {
+    logger.error(`Error reading configuration: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Convert the legacy .localpackages file into a JSON configuration file
+ */
+export function migrateConfig(projectPath: string = process.cwd()): boolean {
+  const legacyPath = path.resolve(projectPath, CONFIG_FILE);
+  const targetName = STRUCTURED_CONFIG_FILES[0];
+  const targetPath = path.resolve(projectPath, targetName);
+
+  if (!fs.existsSync(legacyPath)) {
+    log(`No ${CONFIG_FILE} file found to migrate`, "red");
+    return false;
+  }
+
+  if (fs.existsSync(targetPath)) {
+    log(`${targetName} already exists, not overwriting it`, "red");
+    return false;
+  }
+
+  const parsed = parseLegacyConfig(
+    legacyPath,
+    fs.readFileSync(legacyPath, "utf8")
+  );
+  const { entries, issues } = parsed;
+
+  if (issues.length > 0) {
+    for (const issue of issues) {
+      log(formatConfigIssue(issue), "red");
+    }
+    log(`Fix the lines above before migrating ${CONFIG_FILE}`, "red");
+    return false;
+  }
+
+  fs.writeFileSync(targetPath, serializeJsonConfig(parsed));
+
+  log(`Migrated ${entries.length} packages to ${targetName}`, "green");
+  log(
+    `${CONFIG_FILE} is now ignored and can be deleted. Comments were not carried over.`,
+    "yellow"
+  );
+  return true;
+}
+
+/**
+ * Load tool configuration options from the package.json of a project
+ */
+export function loadToolConfig(
+  projectPath: string = process.cwd()
+): ToolConfig {
+  try {
+    const packageJsonPath = path.resolve(projectPath, "package.json");
     if (!fs.existsSync(packageJsonPath)) {
       return {};
     }
@@ -112,3 +406,22 @@ export function loadToolConfig(): ToolConfig {
     return {};
   }
 }
+
+/**
+ * Apply tool-wide defaults to packages that don't override them
+ */
+export function applyPackageDefaults(
+  localPackages: LocalPackages,
+  toolConfig: ToolConfig
+): LocalPackages {
+  const result: LocalPackages = {};
+
+  for (const [packageName, config] of Object.entries(localPackages)) {
+    result[packageName] = {
+      ...config,
+      strategy: config.strategy || toolConfig.strategy,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,164 @@
+import * as readline from "readline";
+import { colors, log } from "./logger";
+import { WatchedPackageStatus, WatchSession } from "./watcher";
+import { printTable } from "./table";
+
+// Colors of the build states in the status table
+const STATUS_COLORS: Record<WatchedPackageStatus["status"], string> = {
+  ready: colors.green,
+  queued: colors.cyan,
+  building: colors.blue,
+  failed: colors.red,
+  skipped: colors.yellow,
+};
+
+/**
+ * Control a watch session with single-key commands
+ *
+ * Does nothing when stdin is not a terminal, so watch mode keeps working in
+ * pipelines and CI.
+ */
+export function startWatchConsole(session: WatchSession): void {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return;
+  }
+
+  let prompting = false;
+
+  readline.emitKeypressEvents(stdin);
+  stdin.setRawMode(true);
+  stdin.resume();
+
+  const quit = async () => {
+    stdin.setRawMode(false);
+    stdin.pause();
+    log("\nStopping watch mode...", "cyan");
+    await session.close();
+    process.exit(0);
+  };
+
+  /**
+   * Ask for a package to rebuild by number or name
+   */
+  const pickPackage = () => {
+    const names = session.getStatus().map((status) => status.name);
+    prompting = true;
+    stdin.setRawMode(false);
+
+    const rl = readline.createInterface({
+      input: stdin,
+      output: process.stdout,
+      completer: (line: string) => [
+        names.filter((name) => name.startsWith(line)),
+        line,
+      ],
+    });
+
+    rl.question("Rebuild package (number or name): ", (answer) => {
+      rl.close();
+      stdin.setRawMode(true);
+      stdin.resume();
+      prompting = false;
+
+      const value = answer.trim();
+      const name = /^\d+$/.test(value) ? names[Number(value) - 1] : value;
+      if (!value) {
+        return;
+      } else if (name && names.includes(name)) {
+        session.rebuild([name]);
+      } else {
+        log(`Unknown package '${value}'`, "yellow");
+      }
+    });
+  };
+
+  stdin.on("keypress", (input: string | undefined, key: readline.Key) => {
+    if (prompting || !key) {
+      return;
+    }
+
+    // Raw mode turns Ctrl+C into a key press instead of a signal
+    if (key.ctrl && key.name === "c") {
+      quit();
+      return;
+    }
+    if (key.ctrl || key.meta) {
+      return;
+    }
+
+    if (input && /^[1-9]$/.test(input)) {
+      const status = session.getStatus()[Number(input) - 1];
+      if (status) {
+        session.rebuild([status.name]);
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "r":
+        session.rebuild();
+        break;
+      case "b":
+        pickPackage();
+        break;
+      case "s":
+        printStatus(session);
+        break;
+      case "c":
+        console.clear();
+        break;
+      case "p":
+        if (session.isPaused()) {
+          session.resume();
+        } else {
+          session.pause();
+        }
+        break;
+      case "q":
+        quit();
+        break;
+      case "h":
+        printKeys();
+        break;
+    }
+  });
+
+  printKeys();
+}
+
+/**
+ * Show the available keyboard commands
+ */
+function printKeys(): void {
+  log(
+    "Keys: r rebuild all, 1-9 rebuild package, b pick package, s status, " +
+      "c clear, p pause/resume, q quit, h help",
+    "magenta"
+  );
+}
+
+/**
+ * Show the state of each watched package
+ */
+function printStatus(session: WatchSession): void {
+  printTable(
+    "Watched packages",
+    ["#", "Package", "Status", "Updated", "Dev command"],
+    session
+      .getStatus()
+      .map((row, index) => [
+        String(index + 1),
+        row.name,
+        `${STATUS_COLORS[row.status]}${row.status}${colors.reset}`,
+        row.updatedAt ? row.updatedAt.toLocaleTimeString() : "-",
+        row.devCommand
+          ? `${row.devCommand} (${row.devRunning ? "running" : "restarting"})`
+          : "-",
+      ])
+  );
+
+  if (session.isPaused()) {
+    log("Watching is paused, press p to resume", "yellow");
+  }
+}
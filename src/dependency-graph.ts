@@ -9,11 +9,12 @@ import { Logger } from "./logger";
 function getPackageInfo(
   packageName: string,
   packagePath: string,
-  logger: Logger
+  logger: Logger,
+  projectPath: string
 ): PackageInfo | null {
   const absPath = path.isAbsolute(packagePath)
     ? packagePath
-    : path.resolve(process.cwd(), packagePath);
+    : path.resolve(projectPath, packagePath);
 
   const packageJsonPath = path.join(absPath, "package.json");
 
@@ -31,6 +32,11 @@ function getPackageInfo(
       dependencies: Object.keys(packageJson.dependencies || {}),
       devDependencies: Object.keys(packageJson.devDependencies || {}),
       peerDependencies: Object.keys(packageJson.peerDependencies || {}),
+      version: packageJson.version,
+      ranges: {
+        ...packageJson.dependencies,
+        ...packageJson.peerDependencies,
+      },
     };
   } catch (error) {
     logger.error(
@@ -47,7 +53,8 @@ function getPackageInfo(
  */
 export function buildDependencyGraph(
   localPackages: LocalPackages,
-  logger: Logger
+  logger: Logger,
+  projectPath: string = process.cwd()
 ): Map<string, PackageInfo> {
   const graph = new Map<string, PackageInfo>();
 
@@ -55,7 +62,7 @@ export function buildDependencyGraph(
 
   // Build the graph
   for (const [name, config] of Object.entries(localPackages)) {
-    const info = getPackageInfo(name, config.path, logger);
+    const info = getPackageInfo(name, config.path, logger, projectPath);
     if (info) {
       graph.set(name, info);
     }
@@ -86,21 +93,8 @@ export function getTopologicalOrder(
 
     temp.add(name);
 
-    const node = graph.get(name);
-    if (node) {
-      // Check all dependency types
-      const allDeps = [
-        ...node.dependencies,
-        ...node.devDependencies,
-        ...node.peerDependencies,
-      ];
-
-      // Only consider dependencies that are in our local packages
-      const localDeps = allDeps.filter((dep) => graph.has(dep));
-
-      for (const dep of localDeps) {
-        visit(dep);
-      }
+    for (const dep of getLocalDependencies(graph, name)) {
+      visit(dep);
     }
 
     temp.delete(name);
@@ -115,6 +109,100 @@ export function getTopologicalOrder(
     }
   }
 
-  // Reverse to get correct build order
-  return order.reverse();
+  // Dependencies are added before their dependents, which is the build order
+  return order;
+}
+
+/**
+ * Get the local packages a package depends on directly
+ */
+export function getLocalDependencies(
+  graph: Map<string, PackageInfo>,
+  name: string
+): string[] {
+  const node = graph.get(name);
+  if (!node) {
+    return [];
+  }
+
+  // Check all dependency types
+  const allDeps = [
+    ...node.dependencies,
+    ...node.devDependencies,
+    ...node.peerDependencies,
+  ];
+
+  // Only consider dependencies that are in our local packages
+  return Array.from(new Set(allDeps)).filter(
+    (dep) => dep !== name && graph.has(dep)
+  );
+}
+
+/**
+ * Get the local dependencies a package has to wait for when packages are
+ * processed in topological order
+ *
+ * Dependencies that come later in the order are part of a cycle and are left
+ * out, so that circular dependencies can't block each other.
+ */
+export function getBuildDependencies(
+  graph: Map<string, PackageInfo>,
+  topologicalOrder: string[],
+  name: string
+): string[] {
+  return getLocalDependencies(graph, name).filter(
+    (dep) => topologicalOrder.indexOf(dep) < topologicalOrder.indexOf(name)
+  );
+}
+
+/**
+ * Get the given packages along with every local package they depend on,
+ * directly or transitively
+ */
+export function getUpstreamPackages(
+  graph: Map<string, PackageInfo>,
+  names: string[]
+): string[] {
+  const result = new Set<string>();
+  const queue = [...names];
+
+  while (queue.length > 0) {
+    const name = queue.shift() as string;
+    if (result.has(name)) {
+      continue;
+    }
+
+    result.add(name);
+    queue.push(...getLocalDependencies(graph, name));
+  }
+
+  return Array.from(result);
+}
+
+/**
+ * Get the given packages along with every local package that depends on them,
+ * directly or transitively
+ */
+export function getDownstreamPackages(
+  graph: Map<string, PackageInfo>,
+  names: string[]
+): string[] {
+  const result = new Set<string>();
+  const queue = [...names];
+
+  while (queue.length > 0) {
+    const name = queue.shift() as string;
+    if (result.has(name)) {
+      continue;
+    }
+
+    result.add(name);
+    for (const other of graph.keys()) {
+      if (getLocalDependencies(graph, other).includes(name)) {
+        queue.push(other);
+      }
+    }
+  }
+
+  return Array.from(result);
 }
@@ -0,0 +1,181 @@
+import { ChildProcess, execSync, spawn } from "child_process";
+import { LineSplitter } from "./exec";
+import { Logger } from "./logger";
+import { appendCommandLog, startCommandLog } from "./run-logs";
+
+// Delays before restarting a crashed process, doubling after each crash
+const MIN_RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+
+// A process that runs this long is considered healthy again
+const HEALTHY_RUNTIME = 10000;
+
+// Processes to stop when local-linker exits
+const runningProcesses = new Set<DevProcess>();
+let exitHandlerInstalled = false;
+
+/**
+ * A package's long-running development command, such as `tsc --watch`,
+ * restarted when it crashes and stopped when local-linker exits
+ */
+export class DevProcess {
+  readonly packageName: string;
+  readonly command: string;
+  readonly cwd: string;
+  private logger: Logger;
+  private child: ChildProcess | null = null;
+  private stopped = true;
+  private restartDelay = MIN_RESTART_DELAY;
+  private restartTimer: NodeJS.Timeout | undefined;
+  private logFile: string | undefined;
+
+  constructor(
+    packageName: string,
+    command: string,
+    cwd: string,
+    logger: Logger
+  ) {
+    this.packageName = packageName;
+    this.command = command;
+    this.cwd = cwd;
+    this.logger = logger;
+  }
+
+  /**
+   * Start the command
+   */
+  start(): void {
+    this.stopped = false;
+    runningProcesses.add(this);
+    installExitHandler();
+
+    this.logger.info(`Starting '${this.command}' for ${this.packageName}...`);
+
+    const startedAt = Date.now();
+    // A separate process group lets the whole tree be stopped, not just the
+    // shell that runs the command
+    const child = spawn(this.command, {
+      cwd: this.cwd,
+      shell: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: process.platform !== "win32",
+    });
+    this.child = child;
+
+    // The output is shown when verbose and appended to the package's log as
+    // it is printed, since the command may run for the whole session
+    const logDirectory = this.logger.getLogDirectory();
+    const logFile = logDirectory
+      ? startCommandLog(logDirectory, this.packageName, this.command, this.cwd)
+      : undefined;
+    this.logFile = logFile;
+    const splitters = {
+      stdout: new LineSplitter((line) =>
+        this.logger.output(this.packageName, "stdout", line)
+      ),
+      stderr: new LineSplitter((line) =>
+        this.logger.output(this.packageName, "stderr", line)
+      ),
+    };
+    const capture = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+      const text = chunk.toString();
+      splitters[stream].write(text);
+      if (logFile) {
+        appendCommandLog(logFile, text);
+      }
+    };
+    child.stdout.on("data", capture("stdout"));
+    child.stderr.on("data", capture("stderr"));
+
+    child.on("error", (error) => {
+      this.logger.error(
+        `Could not start '${this.command}' for ${this.packageName}: ${error.message}`
+      );
+    });
+
+    child.on("exit", (code, signal) => {
+      splitters.stdout.end();
+      splitters.stderr.end();
+      this.child = null;
+      if (this.stopped) {
+        return;
+      }
+
+      if (logFile) {
+        appendCommandLog(
+          logFile,
+          `\n# ${
+            signal ? `Killed by ${signal}` : `Exited with code ${code}`
+          }\n\n`
+        );
+      }
+
+      if (Date.now() - startedAt >= HEALTHY_RUNTIME) {
+        this.restartDelay = MIN_RESTART_DELAY;
+      }
+
+      this.logger.warn(
+        `'${this.command}' for ${this.packageName} exited with ${
+          signal ? `signal ${signal}` : `code ${code}`
+        }, restarting in ${this.restartDelay / 1000}s`
+      );
+
+      this.restartTimer = setTimeout(() => this.start(), this.restartDelay);
+      this.restartDelay = Math.min(this.restartDelay * 2, MAX_RESTART_DELAY);
+    });
+  }
+
+  /**
+   * Check whether the command is running, rather than waiting to restart
+   */
+  isRunning(): boolean {
+    return this.child !== null;
+  }
+
+  /**
+   * Stop the command and everything it started
+   */
+  stop(): void {
+    this.stopped = true;
+    runningProcesses.delete(this);
+    clearTimeout(this.restartTimer);
+
+    const child = this.child;
+    this.child = null;
+    if (!child || child.pid === undefined) {
+      return;
+    }
+
+    // Logged here, as local-linker may exit before the process does
+    if (this.logFile) {
+      appendCommandLog(this.logFile, "\n# Stopped\n\n");
+    }
+
+    try {
+      if (process.platform === "win32") {
+        execSync(`taskkill /pid ${child.pid} /T /F`, { stdio: "ignore" });
+      } else {
+        process.kill(-child.pid, "SIGTERM");
+      }
+    } catch {
+      // The process already exited
+    }
+  }
+}
+
+/**
+ * Stop all development processes when the process exits
+ *
+ * Signals are left to the CLI, or the program embedding local-linker, which
+ * closes its watch sessions when interrupted.
+ */
+function installExitHandler(): void {
+  if (exitHandlerInstalled) {
+    return;
+  }
+  exitHandlerInstalled = true;
+
+  process.on("exit", () => {
+    runningProcesses.forEach((devProcess) => devProcess.stop());
+  });
+}
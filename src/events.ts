@@ -0,0 +1,114 @@
+import { EventEmitter } from "events";
+import {
+  LinkPlan,
+  LogLevel,
+  RunSummary,
+  StepEvent,
+  StepPhase,
+  WatchChangeEvent,
+} from "./types";
+import { Reporter } from "./reporter";
+
+/**
+ * Events emitted while linking and watching, with their arguments
+ *
+ * Steps are emitted as <phase>:start and <phase>:end, where rebuilds after a
+ * change in watch mode use the rebuild phase. Failed steps are also emitted
+ * as errors, but only when something listens for them.
+ */
+export interface LinkerEventMap {
+  "build:start": [StepEvent];
+  "build:end": [StepEvent];
+  "link:start": [StepEvent];
+  "link:end": [StepEvent];
+  "rebuild:start": [StepEvent];
+  "rebuild:end": [StepEvent];
+  "watch:change": [WatchChangeEvent];
+  summary: [RunSummary];
+  error: [StepError];
+}
+
+/**
+ * Event emitter for embedding local-linker in other programs
+ */
+export class LinkerEvents extends EventEmitter<LinkerEventMap> {}
+
+/**
+ * A step that failed, as emitted with the error event
+ */
+export class StepError extends Error {
+  readonly step: StepEvent;
+
+  constructor(step: StepEvent) {
+    super(
+      `${step.package}: ${step.phase} failed` +
+        (step.error ? `: ${step.error}` : "")
+    );
+    this.name = "StepError";
+    this.step = step;
+  }
+}
+
+// Names of the events steps of each phase are emitted as
+const PHASE_EVENTS: { [phase in StepPhase]: string } = {
+  build: "build",
+  link: "link",
+  watch: "rebuild",
+};
+
+/**
+ * Reporter that emits events for the steps and changes it receives, and
+ * passes everything on to another reporter
+ */
+export class EventReporter implements Reporter {
+  private events: LinkerEvents;
+  private reporter: Reporter;
+
+  constructor(events: LinkerEvents, reporter: Reporter) {
+    this.events = events;
+    this.reporter = reporter;
+  }
+
+  log(level: LogLevel, message: string): void {
+    this.reporter.log(level, message);
+  }
+
+  output(label: string, stream: "stdout" | "stderr", line: string): void {
+    this.reporter.output(label, stream, line);
+  }
+
+  step(event: StepEvent): void {
+    this.reporter.step(event);
+
+    const name = PHASE_EVENTS[event.phase];
+    if (event.status === "started") {
+      this.events.emit(`${name}:start` as "build:start", event);
+      return;
+    }
+
+    this.events.emit(`${name}:end` as "build:end", event);
+
+    // An error event without listeners would throw
+    if (event.status === "failed" && this.events.listenerCount("error") > 0) {
+      this.events.emit("error", new StepError(event));
+    }
+  }
+
+  change(event: WatchChangeEvent): void {
+    this.reporter.change(event);
+    this.events.emit("watch:change", event);
+  }
+
+  summary(summary: RunSummary): void {
+    this.reporter.summary(summary);
+    this.events.emit("summary", summary);
+  }
+
+  plan(plan: LinkPlan): void {
+    this.reporter.plan(plan);
+  }
+
+  withoutSpinner(): Reporter {
+    return new EventReporter(this.events, this.reporter.withoutSpinner());
+  }
+}
@@ -0,0 +1,229 @@
+import { spawn, spawnSync } from "child_process";
+import { Logger } from "./logger";
+import { writeCommandLog } from "./run-logs";
+
+// Output kept per command, older output is dropped beyond this size
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Options for running a command
+ */
+export interface CommandOptions {
+  label: string; // Package the command runs for, prefixing and naming its logs
+  cwd?: string;
+  logger?: Logger; // Receives the output when verbose, and knows the log directory
+}
+
+/**
+ * Output of a command that ran
+ */
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  output: string; // Both streams in the order they were printed
+  logFile?: string; // Log file the output was written to, if any
+}
+
+/**
+ * A command that exited with an error, carrying what it printed
+ */
+export class CommandError extends Error {
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly output: string;
+  readonly logFile?: string;
+
+  constructor(message: string, result: CommandResult) {
+    super(message);
+    this.name = "CommandError";
+    this.stdout = result.stdout;
+    this.stderr = result.stderr;
+    this.output = result.output;
+    this.logFile = result.logFile;
+  }
+
+  /**
+   * Get the last lines the command printed
+   *
+   * Both streams are included, since tools like tsc print their errors to
+   * stdout while package managers add their own to stderr.
+   */
+  tail(lines: number = 20): string[] {
+    return this.output
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .slice(-lines);
+  }
+}
+
+/**
+ * Run a shell command without blocking, resolving once it succeeds
+ */
+export function runCommand(
+  command: string,
+  options: CommandOptions
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const output = { stdout: "", stderr: "", combined: "" };
+
+    // Verbose output is passed on a line at a time
+    const splitters = {
+      stdout: new LineSplitter((line) => forwardLine(options, "stdout", line)),
+      stderr: new LineSplitter((line) => forwardLine(options, "stderr", line)),
+    };
+    const capture = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+      const text = chunk.toString();
+      output[stream] = (output[stream] + text).slice(-MAX_BUFFER);
+      output.combined = (output.combined + text).slice(-MAX_BUFFER);
+      splitters[stream].write(text);
+    };
+
+    child.stdout.on("data", capture("stdout"));
+    child.stderr.on("data", capture("stderr"));
+
+    child.on("error", reject);
+    child.on("close", (code, signal) => {
+      splitters.stdout.end();
+      splitters.stderr.end();
+
+      const failure =
+        code === 0
+          ? undefined
+          : signal
+          ? `killed by ${signal}`
+          : `exit code ${code}`;
+      const result = {
+        stdout: output.stdout,
+        stderr: output.stderr,
+        output: output.combined,
+        logFile: logOutput(command, options, output.combined, failure),
+      };
+
+      if (failure) {
+        reject(
+          new CommandError(`Command failed: ${command} (${failure})`, result)
+        );
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+/**
+ * Run a shell command and wait for it, throwing a CommandError if it fails
+ *
+ * Verbose output is passed on once the command has finished.
+ */
+export function runCommandSync(
+  command: string,
+  options: CommandOptions
+): CommandResult {
+  const child = spawnSync(command, {
+    cwd: options.cwd,
+    shell: true,
+    stdio: ["ignore", "pipe", "pipe"],
+    encoding: "utf8",
+    maxBuffer: MAX_BUFFER,
+  });
+
+  if (child.error) {
+    throw child.error;
+  }
+
+  const stdout = child.stdout || "";
+  const stderr = child.stderr || "";
+  (["stdout", "stderr"] as const).forEach((stream) => {
+    const lines = (stream === "stdout" ? stdout : stderr).split(/\r?\n/);
+    if (lines[lines.length - 1] === "") {
+      lines.pop();
+    }
+    lines.forEach((line) => forwardLine(options, stream, line));
+  });
+
+  const failure =
+    child.status === 0
+      ? undefined
+      : child.signal
+      ? `killed by ${child.signal}`
+      : `exit code ${child.status}`;
+  const result = {
+    stdout,
+    stderr,
+    output: stdout + stderr,
+    logFile: logOutput(command, options, stdout + stderr, failure),
+  };
+
+  if (failure) {
+    throw new CommandError(`Command failed: ${command} (${failure})`, result);
+  }
+  return result;
+}
+
+/**
+ * Split output that arrives in chunks into whole lines
+ */
+export class LineSplitter {
+  private pending = "";
+  private onLine: (line: string) => void;
+
+  constructor(onLine: (line: string) => void) {
+    this.onLine = onLine;
+  }
+
+  write(text: string): void {
+    const lines = (this.pending + text).split(/\r?\n/);
+    this.pending = lines.pop() as string;
+    lines.forEach(this.onLine);
+  }
+
+  /**
+   * Pass on the last line, if it didn't end with a newline
+   */
+  end(): void {
+    if (this.pending) {
+      this.onLine(this.pending);
+      this.pending = "";
+    }
+  }
+}
+
+function forwardLine(
+  options: CommandOptions,
+  stream: "stdout" | "stderr",
+  line: string
+): void {
+  if (options.logger) {
+    options.logger.output(options.label, stream, line);
+  }
+}
+
+/**
+ * Write the output of a command to the run's log directory, if there is one
+ */
+function logOutput(
+  command: string,
+  options: CommandOptions,
+  output: string,
+  failure: string | undefined
+): string | undefined {
+  const logDirectory = options.logger && options.logger.getLogDirectory();
+  if (!logDirectory) {
+    return undefined;
+  }
+
+  return writeCommandLog(
+    logDirectory,
+    options.label,
+    command,
+    options.cwd,
+    output,
+    failure ? `Failed: ${failure}` : "Succeeded"
+  );
+}
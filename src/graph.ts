@@ -0,0 +1,518 @@
+import * as path from "path";
+import {
+  GraphEdge,
+  GraphEdgeType,
+  GraphNode,
+  LinkGraph,
+  LocalPackages,
+  PackageInfo,
+} from "./types";
+import { colors, log, Logger } from "./logger";
+import {
+  buildDependencyGraph,
+  getLocalDependencies,
+  getTopologicalOrder,
+} from "./dependency-graph";
+import { findNestedConfigLayers, loadNestedConfig } from "./config";
+import { findPackagesIn } from "./config-editor";
+import { readPackageJson } from "./package-files";
+
+// Formats the graph can be printed in
+export const GRAPH_FORMATS = ["tree", "dot", "mermaid", "json"];
+
+/**
+ * Work out how the host project and its local packages depend on each other
+ *
+ * Nested packages are only followed when linking recursively, like
+ * linkRecursiveDependencies does. Packages next to a local package that are
+ * depended on but not configured are included as unconfigured, since their
+ * registry versions end up being used.
+ */
+export function createLinkGraph(
+  localPackages: LocalPackages,
+  logger: Logger,
+  projectPath: string = process.cwd(),
+  recursive: boolean = false
+): LinkGraph {
+  const infos = buildDependencyGraph(localPackages, logger, projectPath);
+  const nodes = new Map<string, GraphNode>();
+  const problems: string[] = [];
+
+  const host = readHostInfo(projectPath);
+  nodes.set(host.name, {
+    name: host.name,
+    kind: "host",
+    path: projectPath,
+    version: host.version,
+  });
+
+  for (const [name, config] of Object.entries(localPackages)) {
+    const info = infos.get(name);
+    if (!info) {
+      problems.push(`${name} has no readable package.json at ${config.path}`);
+      continue;
+    }
+    nodes.set(name, {
+      name,
+      kind: "local",
+      path: info.path,
+      version: info.version,
+    });
+  }
+
+  // Packages linked into local packages by their own configuration
+  const nestedLinks: [string, string][] = [];
+  if (recursive) {
+    const processed = new Set<string>();
+    const visit = (packageName: string, absPath: string) => {
+      if (processed.has(absPath)) {
+        return;
+      }
+      processed.add(absPath);
+      if (findNestedConfigLayers(absPath).length === 0) {
+        return;
+      }
+
+      const { entries } = loadNestedConfig(absPath);
+      const nestedInfos = buildDependencyGraph(
+        entries.reduce<LocalPackages>((acc, entry) => {
+          acc[entry.name] = entry.config;
+          return acc;
+        }, {}),
+        logger,
+        absPath
+      );
+
+      for (const { name, config } of entries) {
+        const info = nestedInfos.get(name);
+        if (!info) {
+          problems.push(
+            `${name}, linked into ${packageName}, has no readable package.json at ${config.path}`
+          );
+          continue;
+        }
+
+        if (!infos.has(name)) {
+          infos.set(name, info);
+          nodes.set(name, {
+            name,
+            kind: "nested",
+            path: info.path,
+            version: info.version,
+          });
+        }
+        nestedLinks.push([packageName, name]);
+        visit(name, info.path);
+      }
+    };
+
+    for (const name of Object.keys(localPackages)) {
+      const info = infos.get(name);
+      if (info) {
+        visit(name, info.path);
+      }
+    }
+  }
+
+  const available = findNeighbouringPackages(infos);
+  const cycles = findCycles(infos);
+  const inCycle = (from: string, to: string) =>
+    cycles.some((cycle) => cycle.includes(from) && cycle.includes(to));
+
+  const edges: GraphEdge[] = [];
+  for (const [name, node] of nodes) {
+    const type = node.kind === "local" ? getEdgeType(host, name) : null;
+    if (type) {
+      edges.push({ from: host.name, to: name, type, cycle: false });
+    }
+  }
+
+  for (const [name, info] of infos) {
+    for (const dependency of getDependencyNames(info)) {
+      const type = getEdgeType(info, dependency) as GraphEdgeType;
+      if (infos.has(dependency)) {
+        edges.push({
+          from: name,
+          to: dependency,
+          type,
+          cycle: inCycle(name, dependency),
+        });
+      } else if (available.has(dependency)) {
+        if (!nodes.has(dependency)) {
+          nodes.set(dependency, {
+            name: dependency,
+            kind: "unconfigured",
+            path: available.get(dependency) as string,
+          });
+        }
+        edges.push({ from: name, to: dependency, type, cycle: false });
+      }
+    }
+  }
+
+  for (const [from, to] of nestedLinks) {
+    if (
+      !edges.some((e) => e.from === from && e.to === to && e.type === "nested")
+    ) {
+      edges.push({ from, to, type: "nested", cycle: false });
+    }
+  }
+
+  const graphNodes = Array.from(nodes.values());
+  return {
+    project: projectPath,
+    host: host.name,
+    nodes: graphNodes,
+    edges,
+    order: getTopologicalOrder(infos, logger),
+    cycles,
+    unconfigured: graphNodes
+      .filter((node) => node.kind === "unconfigured")
+      .map((node) => node.name),
+    problems,
+  };
+}
+
+/**
+ * Read the host package.json the way local packages are read, falling back to
+ * the directory name for projects without one
+ */
+function readHostInfo(projectPath: string): PackageInfo {
+  // A project without package.json still has its configured packages
+  const packageJson = readPackageJson(projectPath) || {};
+
+  return {
+    name: packageJson.name || path.basename(projectPath),
+    path: projectPath,
+    dependencies: Object.keys({
+      ...packageJson.dependencies,
+      ...packageJson.optionalDependencies,
+    }),
+    devDependencies: Object.keys(packageJson.devDependencies || {}),
+    peerDependencies: Object.keys(packageJson.peerDependencies || {}),
+    version: packageJson.version,
+    ranges: {},
+  };
+}
+
+function getDependencyNames(info: PackageInfo): string[] {
+  return Array.from(
+    new Set([
+      ...info.dependencies,
+      ...info.peerDependencies,
+      ...info.devDependencies,
+    ])
+  ).filter((name) => name !== info.name);
+}
+
+/**
+ * Get how a package depends on another, preferring the field that matters
+ * most once it is published
+ */
+function getEdgeType(info: PackageInfo, name: string): GraphEdgeType | null {
+  if (info.dependencies.includes(name)) {
+    return "dependency";
+  } else if (info.peerDependencies.includes(name)) {
+    return "peer";
+  } else if (info.devDependencies.includes(name)) {
+    return "dev";
+  }
+  return null;
+}
+
+/**
+ * Find the packages in the directories local packages are in, which is where
+ * their unconfigured siblings live
+ */
+function findNeighbouringPackages(
+  infos: Map<string, PackageInfo>
+): Map<string, string> {
+  const available = new Map<string, string>();
+  const directories = new Set(
+    Array.from(infos.values()).map((info) => path.dirname(info.path))
+  );
+
+  for (const directory of directories) {
+    try {
+      for (const candidate of findPackagesIn(directory)) {
+        if (!available.has(candidate.name)) {
+          available.set(candidate.name, candidate.path);
+        }
+      }
+    } catch {
+      // Unreadable directories have no packages to offer
+    }
+  }
+
+  return available;
+}
+
+/**
+ * Find groups of packages that depend on each other in a loop, with Tarjan's
+ * strongly connected components algorithm
+ */
+function findCycles(infos: Map<string, PackageInfo>): string[][] {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const connect = (name: string) => {
+    indexes.set(name, indexes.size);
+    lowLinks.set(name, indexes.get(name) as number);
+    stack.push(name);
+    onStack.add(name);
+
+    for (const dependency of getLocalDependencies(infos, name)) {
+      if (!indexes.has(dependency)) {
+        connect(dependency);
+        lowLinks.set(
+          name,
+          Math.min(
+            lowLinks.get(name) as number,
+            lowLinks.get(dependency) as number
+          )
+        );
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(
+          name,
+          Math.min(
+            lowLinks.get(name) as number,
+            indexes.get(dependency) as number
+          )
+        );
+      }
+    }
+
+    if (lowLinks.get(name) === indexes.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop() as string;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+
+      if (component.length > 1) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const name of infos.keys()) {
+    if (!indexes.has(name)) {
+      connect(name);
+    }
+  }
+
+  return cycles;
+}
+
+function describeNode(node: GraphNode): string {
+  return node.version ? `${node.name} ${node.version}` : node.name;
+}
+
+function isInCycle(graph: LinkGraph, name: string): boolean {
+  return graph.cycles.some((cycle) => cycle.includes(name));
+}
+
+/**
+ * Format the graph in the DOT language of Graphviz
+ *
+ * Dev dependencies are dashed, peer dependencies dotted, nested links blue,
+ * unconfigured packages orange and cycles red.
+ */
+export function formatGraphDot(graph: LinkGraph): string {
+  const lines = [
+    "digraph dependencies {",
+    "  rankdir=LR;",
+    "  node [shape=box];",
+  ];
+
+  for (const node of graph.nodes) {
+    const attributes = [`label=${JSON.stringify(describeNode(node))}`];
+    if (node.kind === "host") {
+      attributes.push("style=bold", "shape=box3d");
+    } else if (node.kind === "nested") {
+      attributes.push("style=dashed");
+    } else if (node.kind === "unconfigured") {
+      attributes.push('style="dashed,filled"', 'fillcolor="#fff3cd"');
+    }
+    if (node.kind === "unconfigured") {
+      attributes.push('color="#d48806"');
+    } else if (isInCycle(graph, node.name)) {
+      attributes.push("color=red");
+    }
+    lines.push(`  ${JSON.stringify(node.name)} [${attributes.join(", ")}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = [`label=${edge.type}`];
+    if (edge.type === "dev") {
+      attributes.push("style=dashed");
+    } else if (edge.type === "peer") {
+      attributes.push("style=dotted");
+    } else if (edge.type === "nested") {
+      attributes.push("style=dashed", "color=blue");
+    }
+    if (edge.cycle) {
+      attributes.push("color=red", "penwidth=2");
+    }
+    lines.push(
+      `  ${JSON.stringify(edge.from)} -> ${JSON.stringify(
+        edge.to
+      )} [${attributes.join(", ")}];`
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format the graph as a Mermaid flowchart, with the same highlighting as the
+ * DOT output
+ */
+export function formatGraphMermaid(graph: LinkGraph): string {
+  // Package names like @scope/name aren't valid Mermaid ids
+  const ids = new Map(
+    graph.nodes.map((node, index) => [node.name, `n${index}`])
+  );
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const label = describeNode(node).replace(/"/g, "#quot;");
+    lines.push(`  ${ids.get(node.name)}["${label}"]`);
+  }
+
+  const arrows: { [type in GraphEdgeType]: string } = {
+    dependency: "-->",
+    dev: "-.->",
+    peer: "-.->",
+    nested: "==>",
+  };
+  graph.edges.forEach((edge) => {
+    lines.push(
+      `  ${ids.get(edge.from)} ${arrows[edge.type]}|${edge.type}| ${ids.get(
+        edge.to
+      )}`
+    );
+  });
+
+  lines.push(
+    "  classDef host font-weight:bold,stroke-width:2px",
+    "  classDef nested stroke-dasharray:4",
+    "  classDef unconfigured fill:#fff3cd,stroke:#d48806,stroke-dasharray:4",
+    "  classDef cycle stroke:#d00,stroke-width:2px"
+  );
+
+  const classes: { [name: string]: string[] } = {};
+  for (const node of graph.nodes) {
+    const name =
+      node.kind !== "local"
+        ? node.kind
+        : isInCycle(graph, node.name)
+        ? "cycle"
+        : null;
+    if (name) {
+      classes[name] = [...(classes[name] || []), ids.get(node.name) as string];
+    }
+  }
+  for (const [name, members] of Object.entries(classes)) {
+    lines.push(`  class ${members.join(",")} ${name}`);
+  }
+
+  const cycleEdges = graph.edges
+    .map((edge, index) => (edge.cycle ? index : -1))
+    .filter((index) => index !== -1);
+  if (cycleEdges.length > 0) {
+    lines.push(
+      `  linkStyle ${cycleEdges.join(",")} stroke:#d00,stroke-width:2px`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Print the graph as a tree below the host, followed by the build order,
+ * cycles and unconfigured packages
+ *
+ * Packages that were already shown aren't expanded again.
+ */
+export function printGraphTree(graph: LinkGraph): void {
+  const nodes = new Map(graph.nodes.map((node) => [node.name, node]));
+  const shown = new Set<string>();
+
+  const label = (edge: GraphEdge | null, name: string, note?: string) => {
+    const node = nodes.get(name) as GraphNode;
+    let text = describeNode(node);
+    if (edge && edge.type !== "dependency") {
+      text += ` (${edge.type})`;
+    }
+    if (node.kind === "unconfigured") {
+      text += ` ${colors.yellow}not configured${colors.reset}`;
+    }
+    if (note) {
+      text += ` ${note}`;
+    }
+    return edge && edge.cycle ? `${colors.red}${text}${colors.reset}` : text;
+  };
+
+  const printChildren = (name: string, prefix: string, ancestors: string[]) => {
+    const children = graph.edges.filter((edge) => edge.from === name);
+    children.forEach((edge, index) => {
+      const last = index === children.length - 1;
+      const branch = prefix + (last ? "└── " : "├── ");
+
+      if (ancestors.includes(edge.to)) {
+        console.log(branch + label(edge, edge.to, "(cycle)"));
+      } else if (shown.has(edge.to)) {
+        console.log(branch + label(edge, edge.to, "(see above)"));
+      } else {
+        shown.add(edge.to);
+        console.log(branch + label(edge, edge.to));
+        printChildren(edge.to, prefix + (last ? "    " : "│   "), [
+          ...ancestors,
+          edge.to,
+        ]);
+      }
+    });
+  };
+
+  log(`\n${describeNode(nodes.get(graph.host) as GraphNode)}`, "cyan");
+  shown.add(graph.host);
+  printChildren(graph.host, "", [graph.host]);
+
+  // Local packages the host doesn't depend on get their own trees
+  for (const node of graph.nodes) {
+    if (!shown.has(node.name) && node.kind !== "unconfigured") {
+      shown.add(node.name);
+      log(
+        `\n${label(null, node.name)} (not a dependency of the project)`,
+        "yellow"
+      );
+      printChildren(node.name, "", [node.name]);
+    }
+  }
+
+  if (graph.order.length > 1) {
+    console.log(`\nBuild order: ${graph.order.join(" → ")}`);
+  }
+  for (const cycle of graph.cycles) {
+    log(`⚠️ Cycle: ${[...cycle, cycle[0]].join(" → ")}`, "red");
+  }
+  for (const name of graph.unconfigured) {
+    const dependents = graph.edges
+      .filter((edge) => edge.to === name)
+      .map((edge) => edge.from);
+    log(
+      `⚠️ ${name} is depended on by ${dependents.join(
+        ", "
+      )} but not configured, so its registry version is used`,
+      "yellow"
+    );
+  }
+  graph.problems.forEach((problem) => log(`⚠️ ${problem}`, "yellow"));
+}
@@ -0,0 +1,224 @@
+import { SourceLocation } from "./types";
+
+/**
+ * Error thrown for malformed JSON, with the location of the problem
+ */
+export class JsonSyntaxError extends Error {
+  location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(message);
+    this.name = "JsonSyntaxError";
+    this.location = location;
+  }
+}
+
+/**
+ * A parsed JSON document along with where each value appears in the source
+ */
+export interface JsonDocument {
+  value: unknown;
+  // Location of each value, keyed by JSON pointer
+  locations: Map<string, SourceLocation>;
+  // Location of each object key, keyed by the JSON pointer of its value
+  keyLocations: Map<string, SourceLocation>;
+}
+
+/**
+ * Escape a property name for use in a JSON pointer
+ */
+export function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Parse JSON text, keeping track of line and column information
+ */
+export function parseJson(text: string): JsonDocument {
+  const locations = new Map<string, SourceLocation>();
+  const keyLocations = new Map<string, SourceLocation>();
+
+  // Offsets where each line starts, to turn offsets into line/column pairs
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  let index = 0;
+
+  function locate(offset: number): SourceLocation {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  }
+
+  function fail(message: string, offset: number = index): never {
+    throw new JsonSyntaxError(message, locate(offset));
+  }
+
+  function skipWhitespace(): void {
+    while (index < text.length && /\s/.test(text[index])) {
+      index++;
+    }
+  }
+
+  function describeToken(): string {
+    return index < text.length
+      ? `unexpected character '${text[index]}'`
+      : "unexpected end of file";
+  }
+
+  function parseValue(pointer: string): unknown {
+    skipWhitespace();
+    locations.set(pointer, locate(index));
+
+    const char = text[index];
+    if (char === "{") {
+      return parseObject(pointer);
+    } else if (char === "[") {
+      return parseArray(pointer);
+    } else if (char === '"') {
+      return parseString();
+    } else if (char === "-" || (char >= "0" && char <= "9")) {
+      return parseNumber();
+    }
+
+    for (const [literal, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (text.startsWith(literal, index)) {
+        index += literal.length;
+        return value;
+      }
+    }
+
+    return fail(`Expected a value but found ${describeToken()}`);
+  }
+
+  function parseObject(pointer: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    index++; // Opening brace
+
+    skipWhitespace();
+    if (text[index] === "}") {
+      index++;
+      return result;
+    }
+
+    while (true) {
+      skipWhitespace();
+      if (text[index] !== '"') {
+        fail(`Expected a property name but found ${describeToken()}`);
+      }
+
+      const keyOffset = index;
+      const key = parseString();
+      const childPointer = `${pointer}/${escapePointer(key)}`;
+      if (keyLocations.has(childPointer)) {
+        fail(`Duplicate property "${key}"`, keyOffset);
+      }
+      keyLocations.set(childPointer, locate(keyOffset));
+
+      skipWhitespace();
+      if (text[index] !== ":") {
+        fail(`Expected ':' after property name but found ${describeToken()}`);
+      }
+      index++;
+
+      result[key] = parseValue(childPointer);
+
+      skipWhitespace();
+      if (text[index] === ",") {
+        index++;
+      } else if (text[index] === "}") {
+        index++;
+        return result;
+      } else {
+        fail(`Expected ',' or '}' but found ${describeToken()}`);
+      }
+    }
+  }
+
+  function parseArray(pointer: string): unknown[] {
+    const result: unknown[] = [];
+    index++; // Opening bracket
+
+    skipWhitespace();
+    if (text[index] === "]") {
+      index++;
+      return result;
+    }
+
+    while (true) {
+      result.push(parseValue(`${pointer}/${result.length}`));
+
+      skipWhitespace();
+      if (text[index] === ",") {
+        index++;
+      } else if (text[index] === "]") {
+        index++;
+        return result;
+      } else {
+        fail(`Expected ',' or ']' but found ${describeToken()}`);
+      }
+    }
+  }
+
+  function parseString(): string {
+    const start = index;
+    index++; // Opening quote
+
+    while (index < text.length && text[index] !== '"') {
+      if (text[index] === "\n") {
+        fail("Unterminated string", start);
+      }
+      // Skip over escaped characters, JSON.parse validates them below
+      index += text[index] === "\\" ? 2 : 1;
+    }
+
+    if (index >= text.length) {
+      fail("Unterminated string", start);
+    }
+
+    index++; // Closing quote
+
+    try {
+      return JSON.parse(text.slice(start, index));
+    } catch {
+      return fail("Invalid escape sequence in string", start);
+    }
+  }
+
+  function parseNumber(): number {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(
+      text.slice(index)
+    );
+    if (!match) {
+      return fail(`Invalid number`);
+    }
+
+    index += match[0].length;
+    return Number(match[0]);
+  }
+
+  const value = parseValue("");
+
+  skipWhitespace();
+  if (index < text.length) {
+    fail(`Expected end of file but found ${describeToken()}`);
+  }
+
+  return { value, locations, keyLocations };
+}
@@ -1,17 +1,50 @@
 import * as path from "path";
-import { LocalPackages, PackageConfig, PackageInfo } from "./types";
+import {
+  LinkState,
+  LocalPackages,
+  PackageConfig,
+  PackageInfo,
+  RunSummary,
+  UnlinkSummary,
+} from "./types";
 import { Logger } from "./logger";
 import {
   detectPackageManagerForPath,
   PackageManagerCommands,
 } from "./package-manager";
 import { buildPackage } from "./builder";
-import { buildDependencyGraph, getTopologicalOrder } from "./dependency-graph";
-import { CONFIG_FILE, readConfig } from "./config";
+import { BuildCache } from "./build-cache";
+import {
+  buildDependencyGraph,
+  getBuildDependencies,
+  getTopologicalOrder,
+} from "./dependency-graph";
+import { runScheduled } from "./scheduler";
+import { checkCompatibility } from "./compatibility";
+import {
+  CONFIG_FILE,
+  findNestedConfigLayers,
+  readNestedConfig,
+} from "./config";
+import { describeLinkedPackage, loadState, saveState } from "./state";
+import {
+  extractTarball,
+  linkBins,
+  preparePackDirectory,
+  removeInstalledPackage,
+  symlinkPackage,
+  unlinkBins,
+} from "./node-modules";
+import {
+  dedupePeers,
+  describeDuplicatePeer,
+  findDuplicatePeers,
+  restorePeers,
+} from "./peer-dependencies";
 import * as fs from "fs";
 
 /**
- * Link a package to the current project
+ * Link a package to the project of the main package manager commands
  */
 export function linkPackage(
   packageName: string,
@@ -19,16 +52,57 @@ export function linkPackage(
   mainPmCommands: PackageManagerCommands,
   logger: Logger
 ): boolean {
+  const startedAt = Date.now();
+  logger.step({ package: packageName, phase: "link", status: "started" });
+  const success = createLink(packageName, config, mainPmCommands, logger);
+
+  // Linking is synchronous, so the last error logged belongs to this package
+  logger.step({
+    package: packageName,
+    phase: "link",
+    status: success ? "success" : "failed",
+    duration: Date.now() - startedAt,
+    error: success ? undefined : logger.lastError(),
+  });
+
+  return success;
+}
+
+/**
+ * Link a package with its strategy
+ */
+function createLink(
+  packageName: string,
+  config: LocalPackages[string],
+  mainPmCommands: PackageManagerCommands,
+  logger: Logger
+): boolean {
+  const projectPath = mainPmCommands.getProjectPath();
   const absPath = path.isAbsolute(config.path)
     ? config.path
-    : path.resolve(process.cwd(), config.path);
+    : path.resolve(projectPath, config.path);
+
+  // Direct links don't involve any package manager
+  if (config.strategy === "direct") {
+    return createDirectLink(packageName, absPath, projectPath, logger);
+  }
 
   // Detect package manager specific to this package
   const packageManager = detectPackageManagerForPath(absPath);
   const packagePmCommands =
     packageManager === mainPmCommands.getPackageManager()
       ? mainPmCommands
-      : new PackageManagerCommands(packageManager, logger);
+      : new PackageManagerCommands(packageManager, logger, projectPath);
+
+  if (config.strategy === "pack") {
+    return installPackedPackage(
+      packageName,
+      absPath,
+      projectPath,
+      packagePmCommands,
+      logger
+    );
+  }
 
   // Create a global link in the package using its own package manager
   const globalLinkSuccess = packagePmCommands.createGlobalLink(
@@ -43,26 +117,109 @@ export function linkPackage(
   return mainPmCommands.linkToProject(packageName);
 }
 
+/**
+ * Pack a package and extract it into a project's node_modules
+ */
+function installPackedPackage(
+  packageName: string,
+  absPath: string,
+  projectPath: string,
+  packagePmCommands: PackageManagerCommands,
+  logger: Logger
+): boolean {
+  // Pack using the package's own package manager so its publish rules apply
+  const packDir = preparePackDirectory(packageName, projectPath);
+  const tarball = packagePmCommands.packPackage(absPath, packageName, packDir);
+  if (!tarball) {
+    return false;
+  }
+
+  logger.start(`Copying ${packageName} into node_modules...`);
+
+  try {
+    extractTarball(tarball, packageName, projectPath);
+    linkBins(packageName, projectPath);
+    logger.success(`Copied ${packageName} to current project`);
+    return true;
+  } catch (error) {
+    logger.error(`Failed to copy ${packageName}: ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Symlink a package straight into a project's node_modules, bypassing the
+ * package manager's global link registry
+ */
+function createDirectLink(
+  packageName: string,
+  absPath: string,
+  projectPath: string,
+  logger: Logger
+): boolean {
+  logger.start(`Linking ${packageName} directly into node_modules...`);
+
+  try {
+    if (!fs.existsSync(absPath)) {
+      throw new Error(`Package path does not exist: ${absPath}`);
+    }
+
+    symlinkPackage(packageName, absPath, projectPath);
+    linkBins(packageName, projectPath);
+    logger.success(`Linked ${packageName} to current project`);
+    return true;
+  } catch (error) {
+    logger.error(`Failed to link ${packageName}: ${(error as Error).message}`);
+    return false;
+  }
+}
+
 /**
  * Link all local packages
+ *
+ * Packages are built as soon as the local packages they depend on have been
+ * built and linked, with up to `concurrency` builds running at once. When a
+ * package fails, the packages depending on it are skipped. Unchanged packages
+ * aren't rebuilt unless `force` is set. Peer dependencies that a linked package
+ * resolves to its own copy of are reported, or pointed at the project's copy
+ * with `dedupe`. Version mismatches with the project are reported too, and
+ * keep the package from being linked when `strict` is set.
  */
-export function linkAllPackages(
+export async function linkAllPackages(
   localPackages: LocalPackages,
   pmCommands: PackageManagerCommands,
   logger: Logger,
-  resolveDependencies: boolean = false
-): boolean {
+  resolveDependencies: boolean = false,
+  concurrency: number = 1,
+  force: boolean = false,
+  dedupe: boolean = false,
+  strict: boolean = false
+): Promise<RunSummary> {
+  const startedAt = Date.now();
+  const projectPath = pmCommands.getProjectPath();
+
   if (Object.keys(localPackages).length === 0) {
-    return false;
+    return {
+      success: false,
+      duration: 0,
+      linked: [],
+      unchanged: [],
+      failed: [],
+      failedBuilds: [],
+      skipped: [],
+    };
   }
 
+  // The graph decides which builds have to wait for each other
+  const graph = buildDependencyGraph(localPackages, logger, projectPath);
+  const topologicalOrder = getTopologicalOrder(graph, logger);
+
   // Determine the order to process packages
   let packageOrder: string[];
 
   if (resolveDependencies) {
     logger.info("Resolving dependency order...");
-    const graph = buildDependencyGraph(localPackages, logger);
-    packageOrder = getTopologicalOrder(graph, logger);
+    packageOrder = topologicalOrder;
 
     // Check if we got all packages in the order
     const missingPackages = Object.keys(localPackages).filter(
@@ -83,35 +240,224 @@ export function linkAllPackages(
     packageOrder = Object.keys(localPackages);
   }
 
-  let allSuccessful = true;
+  const getDependencies = (name: string) =>
+    getBuildDependencies(graph, topologicalOrder, name);
+
+  // Spinners can't show parallel builds, so those log plain messages
+  const buildLogger = concurrency > 1 ? logger.withoutSpinner() : logger;
+  const buildPmCommands =
+    concurrency > 1
+      ? new PackageManagerCommands(
+          pmCommands.getPackageManager(),
+          buildLogger,
+          projectPath
+        )
+      : pmCommands;
+
+  if (concurrency > 1) {
+    logger.info(`Building up to ${concurrency} packages at a time`);
+  }
 
-  // Process packages in the determined order
-  for (const packageName of packageOrder) {
-    const config = localPackages[packageName];
+  // Record what gets linked so other commands can detect drift
+  const state = loadState(pmCommands.getPackageManager(), projectPath);
+  const buildCache = new BuildCache(force, projectPath);
+
+  // Tells build failures apart from link failures in the summary
+  const failedBuilds = new Set<string>();
+
+  const results = await runScheduled(
+    packageOrder,
+    getDependencies,
+    concurrency,
+    async (packageName) => {
+      const config = localPackages[packageName];
+
+      buildLogger.info(`\nProcessing ${packageName}...`);
+
+      // Catch packages that only work while linked before building them
+      const info = graph.get(packageName);
+      if (
+        info &&
+        !checkPackageCompatibility(info, strict, projectPath, buildLogger)
+      ) {
+        return false;
+      }
+
+      // Build the package
+      const buildSuccess = await buildPackage(
+        packageName,
+        config,
+        buildPmCommands,
+        buildLogger,
+        buildCache,
+        getDependencies(packageName)
+      );
+      if (!buildSuccess) {
+        failedBuilds.add(packageName);
+        return false;
+      }
+
+      // Link the package
+      const linkSuccess = linkPackage(packageName, config, pmCommands, logger);
+      if (!linkSuccess) {
+        return false;
+      }
+
+      if (info) {
+        checkPeerDependencies(
+          packageName,
+          info.peerDependencies,
+          dedupe,
+          projectPath,
+          logger
+        );
+      }
+
+      const absPath = path.isAbsolute(config.path)
+        ? config.path
+        : path.resolve(projectPath, config.path);
+      state.packages[packageName] = describeLinkedPackage(
+        packageName,
+        config,
+        absPath,
+        projectPath
+      );
+      return true;
+    },
+    (packageName, dependency) => {
+      logger.warn(`Skipping ${packageName} because ${dependency} failed`);
+      logger.step({
+        package: packageName,
+        phase: "build",
+        status: "skipped",
+        error: `${dependency} failed`,
+      });
+    },
+    (packageName, error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to link ${packageName}: ${message}`);
+      logger.step({
+        package: packageName,
+        phase: "link",
+        status: "failed",
+        error: message,
+      });
+    }
+  );
 
-    logger.info(`\nProcessing ${packageName}...`);
+  saveState(state, logger, projectPath);
+  buildCache.save(logger);
 
-    // Build the package
-    const buildSuccess = buildPackage(packageName, config, pmCommands, logger);
-    if (!buildSuccess) {
-      allSuccessful = false;
-      continue;
-    }
+  const failed = packageOrder.filter((name) => results.get(name) === "failed");
+  const skipped = packageOrder.filter(
+    (name) => results.get(name) === "skipped"
+  );
 
-    // Link the package
-    const linkSuccess = linkPackage(packageName, config, pmCommands, logger);
-    if (!linkSuccess) {
-      allSuccessful = false;
-    }
+  // Report cache hits in processing order
+  const unchanged = packageOrder.filter((name) =>
+    buildCache.hits.includes(name)
+  );
+  if (unchanged.length > 0) {
+    logger.info(`\nUnchanged since the last build: ${unchanged.join(", ")}`);
   }
 
-  if (allSuccessful) {
+  const success = failed.length === 0 && skipped.length === 0;
+
+  if (success) {
     logger.success("\nAll local packages linked successfully!");
   } else {
     logger.warn("\nSome packages were not linked successfully.");
+    if (failed.length > 0) {
+      logger.warn(`  Failed: ${failed.join(", ")}`);
+    }
+    if (skipped.length > 0) {
+      logger.warn(`  Skipped: ${skipped.join(", ")}`);
+    }
+  }
+
+  const summary: RunSummary = {
+    success,
+    duration: Date.now() - startedAt,
+    linked: packageOrder.filter((name) => results.get(name) === "success"),
+    unchanged,
+    failed,
+    failedBuilds: failed.filter((name) => failedBuilds.has(name)),
+    skipped,
+  };
+  logger.summary(summary);
+
+  return summary;
+}
+
+/**
+ * Report the version mismatches between a local package and the project
+ *
+ * Returns false when there are mismatches and `strict` is set.
+ */
+function checkPackageCompatibility(
+  info: PackageInfo,
+  strict: boolean,
+  projectPath: string,
+  logger: Logger
+): boolean {
+  const problems = checkCompatibility(info, projectPath);
+  if (problems.length === 0) {
+    return true;
+  }
+
+  if (!strict) {
+    problems.forEach((problem) => logger.warn(problem));
+    return true;
+  }
+
+  problems.forEach((problem) => logger.error(problem));
+  logger.error(`Not linking ${info.name} because of --strict`);
+  logger.step({
+    package: info.name,
+    phase: "link",
+    status: "failed",
+    error: problems.join("; "),
+  });
+  return false;
+}
+
+/**
+ * Warn about peer dependencies a linked package loads a second copy of, or
+ * replace those copies with the project's when deduping
+ */
+function checkPeerDependencies(
+  packageName: string,
+  peerDependencies: string[],
+  dedupe: boolean,
+  projectPath: string,
+  logger: Logger
+): void {
+  const duplicates = findDuplicatePeers(
+    packageName,
+    peerDependencies,
+    projectPath
+  );
+  if (duplicates.length === 0) {
+    return;
+  }
+
+  if (dedupe) {
+    dedupePeers(packageName, duplicates, logger, projectPath);
+    return;
   }
 
-  return allSuccessful;
+  for (const duplicate of duplicates) {
+    logger.warn(
+      `${packageName} loads a second copy of ${describeDuplicatePeer(
+        duplicate
+      )}`
+    );
+  }
+  if (duplicates.some((duplicate) => duplicate.fixable)) {
+    logger.warn(
+      "Run with --dedupe-peers to make it use the project's copies instead"
+    );
+  }
 }
 
 /**
@@ -127,6 +473,10 @@ export async function linkRecursiveDependencies(
   // Track packages we've already processed to avoid loops
   const processed = new Set<string>();
 
+  // Record nested links alongside the top-level ones
+  const projectPath = pmCommands.getProjectPath();
+  const state = loadState(pmCommands.getPackageManager(), projectPath);
+
   // Process each package
   for (const [packageName, config] of Object.entries(localPackages)) {
     await processPackageRecursively(
@@ -135,10 +485,13 @@ export async function linkRecursiveDependencies(
       localPackages,
       pmCommands,
       logger,
-      processed
+      processed,
+      state
     );
   }
 
+  saveState(state, logger, projectPath);
+
   logger.success("Recursive dependency linking complete");
 }
 
@@ -152,6 +505,7 @@ async function processPackageRecursively(
   pmCommands: PackageManagerCommands,
   logger: Logger,
   processed: Set<string>,
+  state: LinkState,
   depth: number = 0
 ): Promise<void> {
   // Avoid infinite recursion
@@ -164,27 +518,19 @@ async function processPackageRecursively(
 
   const absPath = path.isAbsolute(config.path)
     ? config.path
-    : path.resolve(process.cwd(), config.path);
+    : path.resolve(pmCommands.getProjectPath(), config.path);
 
-  // Check if the package has its own .localpackages file
-  const localPackagesPath = path.join(absPath, CONFIG_FILE);
-  if (!fs.existsSync(localPackagesPath)) {
+  // Check if the package has its own configuration file
+  if (findNestedConfigLayers(absPath).length === 0) {
     return;
   }
 
-  // Change to the package directory to read its .localpackages file
-  const currentDir = process.cwd();
-  process.chdir(absPath);
-
   logger.info(
     `${" ".repeat(depth * 2)}📦 Checking dependencies in ${packageName}...`
   );
 
   // Read package's local dependencies
-  const packageLocalDeps = readConfig();
-
-  // Change back to original directory
-  process.chdir(currentDir);
+  const packageLocalDeps = readNestedConfig(absPath, logger);
 
   if (Object.keys(packageLocalDeps).length === 0) {
     return;
@@ -196,6 +542,13 @@ async function processPackageRecursively(
     } local dependencies in ${packageName}`
   );
 
+  // Nested links are made in the package with its own package manager
+  const packagePmCommands = new PackageManagerCommands(
+    detectPackageManagerForPath(absPath),
+    logger,
+    absPath
+  );
+
   // Link each dependency
   for (const [depName, depConfig] of Object.entries(packageLocalDeps)) {
     // Resolve the dependency path relative to the original working directory
@@ -212,20 +565,31 @@ async function processPackageRecursively(
     logger.info(
       `${" ".repeat((depth + 1) * 2)}Building ${depName} for ${packageName}...`
     );
-    buildPackage(depName, resolvedConfig, pmCommands, logger);
+    await buildPackage(depName, resolvedConfig, pmCommands, logger);
 
     // Link the dependency to the package
     logger.info(
       `${" ".repeat((depth + 1) * 2)}Linking ${depName} to ${packageName}...`
     );
 
-    // Create a global link in the dependency package
-    pmCommands.createGlobalLink(resolvedConfig.path, depName);
+    const linkSuccess = linkPackage(
+      depName,
+      resolvedConfig,
+      packagePmCommands,
+      logger
+    );
 
-    // Change to the package directory to link the dependency
-    process.chdir(absPath);
-    pmCommands.linkToProject(depName);
-    process.chdir(currentDir);
+    if (linkSuccess) {
+      state.nested[absPath] = {
+        ...state.nested[absPath],
+        [depName]: describeLinkedPackage(
+          depName,
+          depConfig,
+          resolvedConfig.path,
+          absPath
+        ),
+      };
+    }
 
     // Process this dependency recursively
     await processPackageRecursively(
@@ -235,7 +599,270 @@ async function processPackageRecursively(
       pmCommands,
       logger,
       processed,
+      state,
       depth + 1
     );
   }
 }
+
+/**
+ * Remove the links of a package from the project of the main package manager
+ * commands
+ */
+export function unlinkPackage(
+  packageName: string,
+  config: LocalPackages[string],
+  mainPmCommands: PackageManagerCommands,
+  logger: Logger
+): boolean {
+  const projectPath = mainPmCommands.getProjectPath();
+  const absPath = path.isAbsolute(config.path)
+    ? config.path
+    : path.resolve(projectPath, config.path);
+
+  // Bring back the package's own peer dependencies if they were deduped
+  restorePeers(absPath, logger);
+
+  // Packed copies and direct links only live in node_modules, there is no
+  // global link to remove
+  if (config.strategy === "pack" || config.strategy === "direct") {
+    try {
+      unlinkBins(packageName, projectPath);
+      removeInstalledPackage(packageName, projectPath);
+      logger.success(`Removed ${packageName} from node_modules`);
+      return true;
+    } catch (error) {
+      logger.error(
+        `Failed to remove ${packageName}: ${(error as Error).message}`
+      );
+      return false;
+    }
+  }
+
+  // Remove the project-side link using the main project's package manager
+  const projectUnlinkSuccess = mainPmCommands.unlinkFromProject(packageName);
+
+  // Remove the global link using the package's own package manager
+  const packageManager = detectPackageManagerForPath(absPath);
+  const packagePmCommands =
+    packageManager === mainPmCommands.getPackageManager()
+      ? mainPmCommands
+      : new PackageManagerCommands(packageManager, logger, projectPath);
+
+  const globalUnlinkSuccess = packagePmCommands.removeGlobalLink(
+    absPath,
+    packageName
+  );
+
+  return projectUnlinkSuccess && globalUnlinkSuccess;
+}
+
+/**
+ * Unlink local packages and reinstall the versions declared in package.json
+ */
+export function unlinkAllPackages(
+  localPackages: LocalPackages,
+  packageNames: string[],
+  pmCommands: PackageManagerCommands,
+  logger: Logger
+): UnlinkSummary {
+  const projectPath = pmCommands.getProjectPath();
+  const state = loadState(pmCommands.getPackageManager(), projectPath);
+
+  // Default to every configured package and everything recorded as linked
+  const names =
+    packageNames.length > 0
+      ? packageNames
+      : Array.from(
+          new Set([
+            ...Object.keys(localPackages),
+            ...Object.keys(state.packages),
+          ])
+        );
+
+  const unlinked: string[] = [];
+  const failed: string[] = [];
+
+  for (const packageName of names) {
+    // Fall back to the recorded path for packages removed from the config
+    const linked = state.packages[packageName];
+    const configured = localPackages[packageName] || linked;
+    if (!configured) {
+      logger.warn(`${packageName} is not defined in ${CONFIG_FILE}, skipping`);
+      failed.push(packageName);
+      continue;
+    }
+
+    // Unlink the way the package was actually linked
+    const config = {
+      ...configured,
+      strategy: linked ? linked.strategy : configured.strategy,
+    };
+
+    logger.info(`\nUnlinking ${packageName}...`);
+
+    if (unlinkPackage(packageName, config, pmCommands, logger)) {
+      delete state.packages[packageName];
+      unlinked.push(packageName);
+    } else {
+      failed.push(packageName);
+    }
+  }
+
+  saveState(state, logger, projectPath);
+
+  // The install can't be limited to the unlinked packages, and package
+  // managers replace every link they don't know about with its registry copy
+  const stillLinked = Object.keys(state.packages);
+  if (stillLinked.length > 0) {
+    logger.warn(
+      `Reinstalling dependencies also resets the links of ${stillLinked.join(
+        ", "
+      )}, run local-linker link --only ${stillLinked.join(
+        ","
+      )} to link them again`
+    );
+  }
+
+  // Restore the registry versions declared in package.json
+  const installed = pmCommands.installDependencies(undefined, true);
+  const success = installed && failed.length === 0;
+
+  if (success) {
+    logger.success("\nLocal packages unlinked successfully!");
+  } else {
+    logger.warn("\nSome packages were not unlinked successfully.");
+  }
+
+  return { success, unlinked, failed };
+}
+
+/**
+ * Recursively unlink dependencies that were linked inside local packages
+ */
+export async function unlinkRecursiveDependencies(
+  localPackages: LocalPackages,
+  packageNames: string[],
+  pmCommands: PackageManagerCommands,
+  logger: Logger
+): Promise<void> {
+  logger.info("\nChecking for recursive dependencies...");
+
+  // Track packages we've already processed to avoid loops
+  const processed = new Set<string>();
+
+  const projectPath = pmCommands.getProjectPath();
+  const state = loadState(pmCommands.getPackageManager(), projectPath);
+
+  const names =
+    packageNames.length > 0 ? packageNames : Object.keys(localPackages);
+
+  for (const packageName of names) {
+    const config = localPackages[packageName];
+    if (config) {
+      await unlinkPackageRecursively(
+        packageName,
+        config,
+        projectPath,
+        logger,
+        processed,
+        state
+      );
+    }
+  }
+
+  saveState(state, logger, projectPath);
+
+  logger.success("Recursive dependency unlinking complete");
+}
+
+/**
+ * Unlink the nested local dependencies of a single package, depth first
+ */
+async function unlinkPackageRecursively(
+  packageName: string,
+  config: PackageConfig,
+  projectPath: string,
+  logger: Logger,
+  processed: Set<string>,
+  state: LinkState,
+  depth: number = 0
+): Promise<void> {
+  // Avoid infinite recursion
+  const packageKey = `${packageName}:${config.path}`;
+  if (processed.has(packageKey)) {
+    return;
+  }
+
+  processed.add(packageKey);
+
+  const absPath = path.isAbsolute(config.path)
+    ? config.path
+    : path.resolve(projectPath, config.path);
+
+  // Only packages with their own configuration file have nested links
+  if (findNestedConfigLayers(absPath).length === 0) {
+    return;
+  }
+
+  const packageLocalDeps = readNestedConfig(absPath, logger);
+  if (Object.keys(packageLocalDeps).length === 0) {
+    return;
+  }
+
+  // Nested links are managed with the package's own package manager
+  const packagePmCommands = new PackageManagerCommands(
+    detectPackageManagerForPath(absPath),
+    logger,
+    absPath
+  );
+
+  for (const [depName, depConfig] of Object.entries(packageLocalDeps)) {
+    const resolvedConfig = {
+      ...depConfig,
+      path: path.isAbsolute(depConfig.path)
+        ? depConfig.path
+        : path.resolve(absPath, depConfig.path),
+    };
+
+    // Unlink deeper levels first
+    await unlinkPackageRecursively(
+      depName,
+      resolvedConfig,
+      projectPath,
+      logger,
+      processed,
+      state,
+      depth + 1
+    );
+
+    logger.info(
+      `${" ".repeat(
+        (depth + 1) * 2
+      )}Unlinking ${depName} from ${packageName}...`
+    );
+
+    // Unlink the way the dependency was actually linked
+    const linked = state.nested[absPath] && state.nested[absPath][depName];
+    if (linked) {
+      resolvedConfig.strategy = linked.strategy;
+    }
+
+    const unlinkSuccess = unlinkPackage(
+      depName,
+      resolvedConfig,
+      packagePmCommands,
+      logger
+    );
+
+    if (unlinkSuccess && state.nested[absPath]) {
+      delete state.nested[absPath][depName];
+      if (Object.keys(state.nested[absPath]).length === 0) {
+        delete state.nested[absPath];
+      }
+    }
+  }
+
+  // Restore the registry versions in the package
+  packagePmCommands.installDependencies(absPath, true);
+}
@@ -1,4 +1,13 @@
 import ora, { Ora } from "ora";
+import {
+  LinkPlan,
+  LogLevel,
+  RunSummary,
+  StepEvent,
+  WatchChangeEvent,
+} from "./types";
+import { Reporter } from "./reporter";
+import { printLinkPlan } from "./plan";
 
 /**
  * Color codes for console output
@@ -30,9 +39,12 @@ export function createSpinner(text: string): Ora {
 }
 
 /**
- * Helper class to handle logging with or without spinners
+ * Reporter for people, with colors and emoji, and with or without spinners
+ *
+ * Steps, changes and summaries are already described by the logged messages,
+ * so they aren't shown again.
  */
-export class Logger {
+export class PrettyReporter implements Reporter {
   private useSpinner: boolean;
   private spinner: Ora | null = null;
 
@@ -40,70 +52,197 @@ export class Logger {
     this.useSpinner = useSpinner;
   }
 
+  log(level: LogLevel, message: string): void {
+    switch (level) {
+      case "start":
+        if (this.useSpinner) {
+          this.spinner = createSpinner(message).start();
+        } else {
+          log(message, "blue");
+        }
+        break;
+      case "success":
+        if (this.useSpinner && this.spinner) {
+          this.spinner.succeed(message);
+          this.spinner = null;
+        } else {
+          log(`✅ ${message}`, "green");
+        }
+        break;
+      case "error":
+        if (this.useSpinner && this.spinner) {
+          this.spinner.fail(message);
+          this.spinner = null;
+        } else {
+          log(`❌ ${message}`, "red");
+        }
+        break;
+      case "warn":
+        this.logAroundSpinner(`⚠️ ${message}`, "yellow");
+        break;
+      case "info":
+        this.logAroundSpinner(message, "cyan");
+        break;
+    }
+  }
+
+  output(label: string, stream: "stdout" | "stderr", line: string): void {
+    this.logAroundSpinner(
+      `${colors.magenta}[${label}]${colors.reset} ${line}`,
+      "reset"
+    );
+  }
+
+  step(): void {}
+
+  change(): void {}
+
+  summary(): void {}
+
+  plan(plan: LinkPlan): void {
+    printLinkPlan(plan);
+  }
+
+  withoutSpinner(): Reporter {
+    return new PrettyReporter(false);
+  }
+
   /**
-   * Start a spinner or log a message
+   * Log a message, keeping a running spinner below it
    */
-  start(message: string): void {
-    if (this.useSpinner) {
-      this.spinner = createSpinner(message).start();
+  private logAroundSpinner(message: string, color: ColorName): void {
+    if (this.useSpinner && this.spinner) {
+      // Stop the spinner to show the message
+      const text = this.spinner.text;
+      this.spinner.stop();
+      log(message, color);
+      // Restart the spinner with the original text
+      this.spinner = createSpinner(text).start();
     } else {
-      log(message, "blue");
+      log(message, color);
     }
   }
+}
+
+/**
+ * What happens to the output of the commands that are run
+ */
+export interface LoggerOptions {
+  verbose?: boolean; // Show command output as it is printed
+  logDirectory?: string; // Directory to write the full command output to
+}
+
+/**
+ * Helper class to handle logging with or without spinners
+ *
+ * Everything is passed on to a reporter, which decides how it is shown.
+ */
+export class Logger {
+  private reporter: Reporter;
+  private options: LoggerOptions;
+  private lastErrorMessage: string | undefined;
+
+  constructor(
+    useSpinner: boolean = true,
+    reporter?: Reporter,
+    options: LoggerOptions = {}
+  ) {
+    this.reporter = reporter || new PrettyReporter(useSpinner);
+    this.options = options;
+  }
+
+  /**
+   * Start a spinner or log a message
+   */
+  start(message: string): void {
+    this.reporter.log("start", message);
+  }
 
   /**
    * Log a success message or update spinner
    */
   success(message: string): void {
-    if (this.useSpinner && this.spinner) {
-      this.spinner.succeed(message);
-      this.spinner = null;
-    } else {
-      log(`✅ ${message}`, "green");
-    }
+    this.reporter.log("success", message);
   }
 
   /**
    * Log an error message or update spinner
    */
   error(message: string): void {
-    if (this.useSpinner && this.spinner) {
-      this.spinner.fail(message);
-      this.spinner = null;
-    } else {
-      log(`❌ ${message}`, "red");
-    }
+    this.lastErrorMessage = message;
+    this.reporter.log("error", message);
   }
 
   /**
    * Log a warning message
    */
   warn(message: string): void {
-    if (this.useSpinner && this.spinner) {
-      // Stop the spinner to show the warning
-      const text = this.spinner.text;
-      this.spinner.stop();
-      log(`⚠️ ${message}`, "yellow");
-      // Restart the spinner with the original text
-      this.spinner = createSpinner(text).start();
-    } else {
-      log(`⚠️ ${message}`, "yellow");
-    }
+    this.reporter.log("warn", message);
   }
 
   /**
    * Log an info message
    */
   info(message: string): void {
-    if (this.useSpinner && this.spinner) {
-      // Stop the spinner to show the info
-      const text = this.spinner.text;
-      this.spinner.stop();
-      log(message, "cyan");
-      // Restart the spinner with the original text
-      this.spinner = createSpinner(text).start();
-    } else {
-      log(message, "cyan");
+    this.reporter.log("info", message);
+  }
+
+  /**
+   * Show a line printed by a command run for a package, when verbose
+   */
+  output(label: string, stream: "stdout" | "stderr", line: string): void {
+    if (this.options.verbose) {
+      this.reporter.output(label, stream, line);
     }
   }
+
+  /**
+   * Get the directory command output is written to, if any
+   */
+  getLogDirectory(): string | undefined {
+    return this.options.logDirectory;
+  }
+
+  /**
+   * Report a started or finished step for a package
+   */
+  step(event: StepEvent): void {
+    this.reporter.step(event);
+  }
+
+  /**
+   * Report a change to a watched file
+   */
+  change(event: WatchChangeEvent): void {
+    this.reporter.change(event);
+  }
+
+  /**
+   * Report the outcome of linking all packages
+   */
+  summary(summary: RunSummary): void {
+    this.reporter.summary(summary);
+  }
+
+  /**
+   * Report what a dry run would do
+   */
+  plan(plan: LinkPlan): void {
+    this.reporter.plan(plan);
+  }
+
+  /**
+   * Get the last error logged, to describe a failed step
+   */
+  lastError(): string | undefined {
+    return this.lastErrorMessage;
+  }
+
+  /**
+   * Create a logger for the same reporter that never shows spinners, for
+   * work that runs in parallel
+   */
+  withoutSpinner(): Logger {
+    return new Logger(false, this.reporter.withoutSpinner(), this.options);
+  }
 }
@@ -0,0 +1,236 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import { WORK_DIR } from "./config";
+import { readPackageJson } from "./package-files";
+
+// File in a packed copy holding the hash of the tarball it came from, which a
+// package manager reinstalling the package doesn't leave behind
+const PACK_MARKER = ".local-linker-pack";
+
+/**
+ * Get the location of a package inside a project's node_modules
+ */
+export function getInstallPath(
+  packageName: string,
+  projectPath: string = process.cwd()
+): string {
+  return path.join(projectPath, "node_modules", ...packageName.split("/"));
+}
+
+/**
+ * Remove a package from node_modules, whether it is a symlink or a copy
+ */
+export function removeInstalledPackage(
+  packageName: string,
+  projectPath: string = process.cwd()
+): void {
+  const installPath = getInstallPath(packageName, projectPath);
+
+  let stats: fs.Stats;
+  try {
+    stats = fs.lstatSync(installPath);
+  } catch {
+    return; // Nothing installed
+  }
+
+  if (stats.isSymbolicLink()) {
+    fs.unlinkSync(installPath);
+  } else {
+    fs.rmSync(installPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Get the directory a package is packed into
+ */
+export function getPackDirectory(
+  packageName: string,
+  projectPath: string = process.cwd()
+): string {
+  // Scoped names contain a slash, which can't be part of a directory name
+  return path.join(
+    projectPath,
+    WORK_DIR,
+    "packs",
+    packageName.replace("/", "+")
+  );
+}
+
+/**
+ * Create an empty directory to pack a package into
+ */
+export function preparePackDirectory(
+  packageName: string,
+  projectPath: string = process.cwd()
+): string {
+  const packDir = getPackDirectory(packageName, projectPath);
+
+  fs.rmSync(packDir, { recursive: true, force: true });
+  fs.mkdirSync(packDir, { recursive: true });
+
+  return packDir;
+}
+
+/**
+ * Extract a packed tarball into node_modules, replacing any existing copy
+ */
+export function extractTarball(
+  tarballPath: string,
+  packageName: string,
+  projectPath: string = process.cwd()
+): void {
+  const extractDir = path.join(path.dirname(tarballPath), "extract");
+  fs.mkdirSync(extractDir, { recursive: true });
+
+  execSync(`tar -xzf "${tarballPath}" -C "${extractDir}"`, {
+    stdio: "ignore",
+  });
+
+  // Tarballs from npm, yarn and pnpm all contain a single package directory
+  const extractedPath = path.join(extractDir, "package");
+  if (!fs.existsSync(extractedPath)) {
+    throw new Error(`Unexpected tarball layout in ${tarballPath}`);
+  }
+
+  removeInstalledPackage(packageName, projectPath);
+
+  const hash = crypto
+    .createHash("sha256")
+    .update(fs.readFileSync(tarballPath))
+    .digest("hex");
+  fs.writeFileSync(path.join(extractedPath, PACK_MARKER), hash + "\n");
+
+  const installPath = getInstallPath(packageName, projectPath);
+  fs.mkdirSync(path.dirname(installPath), { recursive: true });
+  fs.renameSync(extractedPath, installPath);
+}
+
+/**
+ * Read the hash of the tarball a packed copy in node_modules was extracted
+ * from
+ *
+ * Returns undefined if the installed package isn't a packed copy.
+ */
+export function readPackMarker(
+  packageName: string,
+  projectPath: string = process.cwd()
+): string | undefined {
+  try {
+    return fs
+      .readFileSync(
+        path.join(getInstallPath(packageName, projectPath), PACK_MARKER),
+        "utf8"
+      )
+      .trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Symlink a package directory into node_modules, replacing any existing copy
+ */
+export function symlinkPackage(
+  packageName: string,
+  packagePath: string,
+  projectPath: string = process.cwd()
+): void {
+  removeInstalledPackage(packageName, projectPath);
+
+  const installPath = getInstallPath(packageName, projectPath);
+  fs.mkdirSync(path.dirname(installPath), { recursive: true });
+
+  // Junctions don't require elevated permissions on Windows
+  fs.symlinkSync(
+    packagePath,
+    installPath,
+    process.platform === "win32" ? "junction" : "dir"
+  );
+}
+
+/**
+ * Read the bin entries of an installed package as a map of name to file
+ */
+function readBinEntries(
+  packageName: string,
+  projectPath: string
+): Record<string, string> {
+  const packageJson = readPackageJson(getInstallPath(packageName, projectPath));
+  if (!packageJson) {
+    return {};
+  }
+
+  // A string bin is named after the package, without its scope
+  if (typeof packageJson.bin === "string") {
+    const binName = packageName.split("/").pop() as string;
+    return { [binName]: packageJson.bin };
+  }
+
+  return packageJson.bin || {};
+}
+
+/**
+ * Link the bin entries of an installed package into node_modules/.bin
+ *
+ * Returns the names of the linked bins.
+ */
+export function linkBins(
+  packageName: string,
+  projectPath: string = process.cwd()
+): string[] {
+  const bins = readBinEntries(packageName, projectPath);
+  const binDir = path.join(projectPath, "node_modules", ".bin");
+  const installPath = getInstallPath(packageName, projectPath);
+
+  for (const [binName, binFile] of Object.entries(bins)) {
+    const targetPath = path.join(installPath, binFile);
+    const binPath = path.join(binDir, binName);
+
+    fs.mkdirSync(binDir, { recursive: true });
+    removeBin(binPath);
+
+    if (process.platform === "win32") {
+      // Windows can't execute symlinked scripts, so write a cmd shim instead
+      fs.writeFileSync(
+        `${binPath}.cmd`,
+        `@node "%~dp0\\${path.relative(binDir, targetPath)}" %*\r\n`
+      );
+    } else {
+      fs.symlinkSync(path.relative(binDir, targetPath), binPath);
+      if (fs.existsSync(targetPath)) {
+        fs.chmodSync(targetPath, 0o755);
+      }
+    }
+  }
+
+  return Object.keys(bins);
+}
+
+/**
+ * Remove the bin entries of an installed package from node_modules/.bin
+ */
+export function unlinkBins(
+  packageName: string,
+  projectPath: string = process.cwd()
+): void {
+  const binDir = path.join(projectPath, "node_modules", ".bin");
+
+  for (const binName of Object.keys(readBinEntries(packageName, projectPath))) {
+    removeBin(path.join(binDir, binName));
+  }
+}
+
+/**
+ * Remove a bin and its Windows shim, if present
+ */
+function removeBin(binPath: string): void {
+  for (const file of [binPath, `${binPath}.cmd`]) {
+    try {
+      fs.unlinkSync(file);
+    } catch {
+      // Nothing to remove
+    }
+  }
+}
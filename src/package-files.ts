@@ -0,0 +1,307 @@
+import * as fs from "fs";
+import * as path from "path";
+import picomatch from "picomatch";
+import { PackageConfig, PackageJson } from "./types";
+
+// Files that are never sources, in .gitignore syntax
+const DEFAULT_IGNORE = [".*", "node_modules/", "dist/", "build/"];
+
+/**
+ * Decides which files of a package are sources
+ */
+export interface PackageFileMatcher {
+  root: string; // Absolute path of the package
+  watchRoots: string[]; // Directories containing all matching files
+  isIgnored(absPath: string): boolean;
+  matches(absPath: string, isDirectory?: boolean): boolean;
+}
+
+/**
+ * A single ignore rule, where a later matching rule overrides earlier ones
+ */
+interface IgnoreRule {
+  isMatch: (relativePath: string) => boolean;
+  negated: boolean;
+}
+
+/**
+ * Get the glob patterns selecting the sources of a package, relative to it
+ *
+ * Uses the package's watch patterns, or its src directory (the whole package
+ * when it has none).
+ */
+export function getSourcePatterns(
+  absPath: string,
+  watchPatterns?: string[]
+): string[] {
+  if (watchPatterns && watchPatterns.length > 0) {
+    return watchPatterns.map((pattern) => toRelativePattern(absPath, pattern));
+  }
+
+  if (fs.existsSync(path.join(absPath, "src"))) {
+    return ["src/**"];
+  }
+
+  return ["**"];
+}
+
+/**
+ * Get the directory a package's build output is written to
+ *
+ * Defaults to the top-level directory of the entry points in package.json, or
+ * dist when they are at the root of the package.
+ */
+export function getOutputDirectory(
+  absPath: string,
+  config: PackageConfig
+): string {
+  if (config.outputDir) {
+    return path.resolve(absPath, config.outputDir);
+  }
+
+  const packageJson = readPackageJson(absPath) || {};
+  for (const field of ["main", "module", "types"] as const) {
+    const entry = packageJson[field];
+    if (typeof entry !== "string") {
+      continue;
+    }
+
+    const [first, ...rest] = path
+      .normalize(entry)
+      .split(path.sep)
+      .filter((segment) => segment && segment !== ".");
+    if (rest.length > 0 && first !== "..") {
+      return path.join(absPath, first);
+    }
+  }
+
+  return path.join(absPath, "dist");
+}
+
+/**
+ * Read the package.json of a package
+ *
+ * Returns null if it is missing or isn't valid JSON.
+ */
+export function readPackageJson(packagePath: string): PackageJson | null {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(packagePath, "package.json"), "utf8")
+    );
+    return packageJson && typeof packageJson === "object" ? packageJson : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the symlinks in a path, keeping paths that don't exist as they are
+ */
+export function realpath(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    return file;
+  }
+}
+
+/**
+ * Check whether a path is, or is inside, a directory
+ */
+export function isWithin(file: string, dir: string): boolean {
+  return file === dir || file.startsWith(dir.replace(/[\\/]$/, "") + path.sep);
+}
+
+/**
+ * Create a matcher for the sources of a package
+ *
+ * Files are ignored by the built-in rules, then by the package's .gitignore,
+ * then by the package's `ignore` patterns, where a pattern starting with !
+ * includes files an earlier rule ignored.
+ */
+export function createFileMatcher(
+  absPath: string,
+  config: PackageConfig
+): PackageFileMatcher {
+  const patterns = getSourcePatterns(absPath, config.watchPatterns);
+  const include = patterns.filter((pattern) => !pattern.startsWith("!"));
+  const exclude = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => pattern.slice(1));
+
+  const isIncluded =
+    include.length > 0
+      ? picomatch(include, { dot: true, ignore: exclude })
+      : () => false;
+  const bases = include.map((pattern) => picomatch.scan(pattern).base);
+
+  const rules: IgnoreRule[] = [
+    ...DEFAULT_IGNORE.map(fromGitignoreLine),
+    ...readGitignore(absPath).map(fromGitignoreLine),
+    ...(config.ignore || []).map(fromIgnorePattern),
+  ].filter((rule): rule is IgnoreRule => rule !== null);
+
+  const toRelative = (file: string) =>
+    path.relative(absPath, file).replace(/\\/g, "/");
+
+  const isIgnored = (file: string) => {
+    const relativePath = toRelative(file);
+    if (!relativePath) {
+      return false;
+    }
+
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.isMatch(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+
+  return {
+    root: absPath,
+    watchRoots: Array.from(
+      new Set(bases.map((base) => path.resolve(absPath, base)))
+    ),
+    isIgnored,
+    matches(file: string, isDirectory: boolean = false) {
+      if (isIgnored(file)) {
+        return false;
+      }
+
+      const relativePath = toRelative(file);
+
+      // Directories match when files inside them can
+      if (isDirectory) {
+        return bases.some(
+          (base) =>
+            !base ||
+            relativePath === base ||
+            relativePath.startsWith(`${base}/`) ||
+            base.startsWith(`${relativePath}/`)
+        );
+      }
+
+      return isIncluded(relativePath);
+    },
+  };
+}
+
+/**
+ * List the sources of a package, relative to the package and sorted
+ */
+export function listSourceFiles(
+  absPath: string,
+  config: PackageConfig
+): string[] {
+  const matcher = createFileMatcher(absPath, config);
+  const files: string[] = [];
+
+  const walk = (dir: string) => {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!matcher.isIgnored(entryPath)) {
+          walk(entryPath);
+        }
+      } else if (entry.isFile() && matcher.matches(entryPath)) {
+        files.push(path.relative(absPath, entryPath).replace(/\\/g, "/"));
+      }
+    }
+  };
+
+  // Start from the directories the patterns are rooted at
+  const roots = matcher.watchRoots.filter(
+    (root) =>
+      !matcher.watchRoots.some(
+        (other) => other !== root && root.startsWith(other + path.sep)
+      )
+  );
+  roots.forEach(walk);
+
+  return Array.from(new Set(files)).sort();
+}
+
+/**
+ * Make a pattern relative to its package, using forward slashes
+ */
+function toRelativePattern(absPath: string, pattern: string): string {
+  const negated = pattern.startsWith("!");
+  let body = negated ? pattern.slice(1) : pattern;
+
+  if (path.isAbsolute(body)) {
+    body = path.relative(absPath, body);
+  }
+  body = body.replace(/\\/g, "/").replace(/^\.\//, "");
+
+  return negated ? `!${body}` : body;
+}
+
+/**
+ * Read the ignore rules of a package's .gitignore file
+ */
+function readGitignore(absPath: string): string[] {
+  try {
+    return fs
+      .readFileSync(path.join(absPath, ".gitignore"), "utf8")
+      .split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert a .gitignore line into a rule
+ */
+function fromGitignoreLine(line: string): IgnoreRule | null {
+  let pattern = line.trim();
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  const negated = pattern.startsWith("!");
+  if (negated) {
+    pattern = pattern.slice(1);
+  }
+
+  // Patterns containing a slash are relative to the .gitignore file, others
+  // match at any depth
+  pattern = pattern.replace(/\/+$/, "");
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+  if (!pattern) {
+    return null;
+  }
+
+  const glob = anchored ? pattern : `**/${pattern}`;
+  return {
+    isMatch: picomatch([glob, `${glob}/**`], { dot: true }),
+    negated,
+  };
+}
+
+/**
+ * Convert a glob pattern from the package's `ignore` option into a rule
+ */
+function fromIgnorePattern(pattern: string): IgnoreRule | null {
+  const negated = pattern.startsWith("!");
+  const glob = (negated ? pattern.slice(1) : pattern)
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^\.\//, "")
+    .replace(/\/+$/, "");
+  if (!glob) {
+    return null;
+  }
+
+  return {
+    isMatch: picomatch([glob, `${glob}/**`], { dot: true }),
+    negated,
+  };
+}
@@ -1,19 +1,17 @@
 import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
-import { PackageManager } from "./types";
+import { PackageManager, ShellCommand } from "./types";
 import { Logger } from "./logger";
+import { CommandError, runCommand, runCommandSync } from "./exec";
 
 /**
  * Detect the package manager being used in the project
  */
-export function detectPackageManager(): PackageManager {
-  if (fs.existsSync(path.resolve(process.cwd(), "pnpm-lock.yaml"))) {
-    return "pnpm";
-  } else if (fs.existsSync(path.resolve(process.cwd(), "yarn.lock"))) {
-    return "yarn";
-  }
-  return "npm"; // Default to npm
+export function detectPackageManager(
+  projectPath: string = process.cwd()
+): PackageManager {
+  return detectPackageManagerForPath(projectPath);
 }
 
 /**
@@ -30,16 +28,28 @@ export function detectPackageManagerForPath(
   return "npm"; // Default to npm
 }
 
+// Resolved package manager binaries, shared by all command helpers
+const packageManagerPaths = new Map<PackageManager, string>();
+
 /**
  * Helper class to execute package manager commands
+ *
+ * Commands that change a project, such as linking a package into it, run in
+ * the project the helper was created for.
  */
 export class PackageManagerCommands {
   private packageManager: PackageManager;
   private logger: Logger;
+  private projectPath: string;
 
-  constructor(packageManager: PackageManager, logger: Logger) {
+  constructor(
+    packageManager: PackageManager,
+    logger: Logger,
+    projectPath: string = process.cwd()
+  ) {
     this.packageManager = packageManager;
     this.logger = logger;
+    this.projectPath = projectPath;
   }
 
   /**
@@ -49,6 +59,65 @@ export class PackageManagerCommands {
     return this.packageManager;
   }
 
+  /**
+   * Get the project that commands are run for
+   */
+  getProjectPath(): string {
+    return this.projectPath;
+  }
+
+  /**
+   * Get the command that builds a package, run in the package
+   */
+  getBuildCommand(customCommand?: string): string {
+    // Get the full path to the package manager binary
+    return customCommand || `${this.getPackageManagerPath()} run build`;
+  }
+
+  /**
+   * Get the command that creates a global link for a package
+   */
+  getGlobalLinkCommand(packagePath: string): ShellCommand {
+    // npm, yarn and pnpm all register the package they are run in
+    return {
+      command: `${this.getPackageManagerPath()} link`,
+      cwd: packagePath,
+    };
+  }
+
+  /**
+   * Get the command that links a globally-linked package to the project
+   */
+  getProjectLinkCommand(packageName: string): ShellCommand {
+    return {
+      command: `${this.getPackageManagerPath()} link "${packageName}"`,
+      cwd: this.projectPath,
+    };
+  }
+
+  /**
+   * Get the command that packs a package into a tarball in the destination
+   * directory
+   */
+  getPackCommand(packagePath: string, destination: string): ShellCommand {
+    // Get the full path to the package manager binary
+    const pmPath = this.getPackageManagerPath();
+
+    if (this.packageManager === "yarn") {
+      const filename = path.join(destination, "package.tgz");
+      return {
+        command: `${pmPath} pack --filename "${filename}"`,
+        cwd: packagePath,
+      };
+    } else if (this.packageManager === "pnpm") {
+      return {
+        command: `${pmPath} pack --pack-destination "${destination}"`,
+        cwd: packagePath,
+      };
+    }
+    return { command: `${pmPath} pack "${packagePath}"`, cwd: destination };
+  }
+
   /**
    * Create a global link for a package
    */
@@ -56,43 +125,39 @@ export class PackageManagerCommands {
     this.logger.start(`Creating global link for ${packageName}...`);
 
     try {
-      let command: string;
-
-      // Get the full path to the package manager binary
-      const pmPath = this.getPackageManagerPath();
-
-      if (this.packageManager === "yarn") {
-        command = `cd "${packagePath}" && ${pmPath} link`;
-      } else if (this.packageManager === "pnpm") {
-        command = `cd "${packagePath}" && ${pmPath} link`;
-      } else {
-        command = `cd "${packagePath}" && ${pmPath} link`;
-      }
-
-      execSync(command, { stdio: "ignore" });
+      const { command, cwd } = this.getGlobalLinkCommand(packagePath);
+      this.run(command, packageName, cwd);
       this.logger.success(`Created global link for ${packageName}`);
       return true;
     } catch (error) {
-      this.logger.error(
-        `Failed to create global link: ${(error as Error).message}`
-      );
+      this.reportFailure("Failed to create global link", error);
       return false;
     }
   }
 
   // Helper method to get the full path to the package manager (in case project uses volta, nvm, etc)
   private getPackageManagerPath(): string {
+    // Only look the binary up once per run
+    const cachedPath = packageManagerPaths.get(this.packageManager);
+    if (cachedPath) {
+      return cachedPath;
+    }
+
+    let pmPath: string;
     try {
       // Use 'which' on Unix-like systems or 'where' on Windows
       const whichCmd = process.platform === "win32" ? "where" : "which";
-      return execSync(`${whichCmd} ${this.packageManager}`).toString().trim();
+      pmPath = execSync(`${whichCmd} ${this.packageManager}`).toString().trim();
     } catch (error) {
       // If the command fails, fall back to just using the name
       this.logger.warn(
         `Could not find path for ${this.packageManager}, using default`
       );
-      return this.packageManager;
+      pmPath = this.packageManager;
     }
+
+    packageManagerPaths.set(this.packageManager, pmPath);
+    return pmPath;
   }
 
   /**
@@ -101,71 +166,211 @@ export class PackageManagerCommands {
   linkToProject(packageName: string): boolean {
     this.logger.start(`Linking ${packageName} to current project...`);
 
+    try {
+      const { command, cwd } = this.getProjectLinkCommand(packageName);
+      this.run(command, packageName, cwd);
+      this.logger.success(`Linked ${packageName} to current project`);
+      return true;
+    } catch (error) {
+      this.reportFailure("Failed to link to project", error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove the global link previously created for a package
+   */
+  removeGlobalLink(packagePath: string, packageName: string): boolean {
+    this.logger.start(`Removing global link for ${packageName}...`);
+
     try {
       let command: string;
 
       // Get the full path to the package manager binary
       const pmPath = this.getPackageManagerPath();
 
+      // Yarn removes the link registered for the package it runs in
       if (this.packageManager === "yarn") {
-        command = `${pmPath} link "${packageName}"`;
+        command = `${pmPath} unlink`;
       } else if (this.packageManager === "pnpm") {
-        command = `${pmPath} link "${packageName}"`;
+        command = `${pmPath} remove --global "${packageName}"`;
       } else {
-        command = `${pmPath} link "${packageName}"`;
+        command = `${pmPath} rm --global "${packageName}"`;
       }
 
-      execSync(command, { stdio: "ignore" });
-      this.logger.success(`Linked ${packageName} to current project`);
+      this.run(command, packageName, packagePath);
+      this.logger.success(`Removed global link for ${packageName}`);
       return true;
     } catch (error) {
-      this.logger.error(
-        `Failed to link to project: ${(error as Error).message}`
-      );
+      this.reportFailure("Failed to remove global link", error);
       return false;
     }
   }
 
+  /**
+   * Remove a linked package from the current project
+   */
+  unlinkFromProject(packageName: string): boolean {
+    this.logger.start(`Unlinking ${packageName} from project...`);
+
+    try {
+      let command: string;
+
+      // Get the full path to the package manager binary
+      const pmPath = this.getPackageManagerPath();
+
+      if (this.packageManager === "yarn") {
+        command = `${pmPath} unlink "${packageName}"`;
+      } else if (this.packageManager === "pnpm") {
+        command = `${pmPath} unlink "${packageName}"`;
+      } else {
+        command = `${pmPath} unlink --no-save "${packageName}"`;
+      }
+
+      this.run(command, packageName, this.projectPath);
+      this.logger.success(`Unlinked ${packageName}`);
+      return true;
+    } catch (error) {
+      this.reportFailure("Failed to unlink from project", error);
+      return false;
+    }
+  }
+
+  /**
+   * Pack a package into a tarball in the destination directory
+   *
+   * Returns the path to the tarball, or null if packing failed.
+   */
+  packPackage(
+    packagePath: string,
+    packageName: string,
+    destination: string
+  ): string | null {
+    this.logger.start(`Packing ${packageName}...`);
+
+    try {
+      const { command, cwd } = this.getPackCommand(packagePath, destination);
+      this.run(command, packageName, cwd);
+
+      // The tarball name depends on the package manager, so look it up
+      const tarball = fs
+        .readdirSync(destination)
+        .find((file) => file.endsWith(".tgz"));
+      if (!tarball) {
+        throw new Error("No tarball was produced");
+      }
+
+      this.logger.success(`Packed ${packageName}`);
+      return path.join(destination, tarball);
+    } catch (error) {
+      this.reportFailure("Failed to pack package", error);
+      return null;
+    }
+  }
+
   /**
    * Run a build command in a package
    */
-  runBuild(
+  async runBuild(
     packagePath: string,
     packageName: string,
     customCommand?: string
-  ): boolean {
-    // Get the full path to the package manager binary
-    const pmPath = this.getPackageManagerPath();
-    const defaultCommand = `${pmPath} run build`;
-    const buildCommand = customCommand || defaultCommand;
+  ): Promise<boolean> {
+    const buildCommand = this.getBuildCommand(customCommand);
 
     this.logger.start(`Building ${packageName} using '${buildCommand}'...`);
+    const startedAt = Date.now();
+    this.logger.step({
+      package: packageName,
+      phase: "build",
+      status: "started",
+      command: buildCommand,
+    });
 
     try {
-      execSync(`cd "${packagePath}" && ${buildCommand}`, { stdio: "ignore" });
+      // Builds run asynchronously so independent packages can build in parallel
+      await runCommand(buildCommand, {
+        label: packageName,
+        cwd: packagePath,
+        logger: this.logger,
+      });
       this.logger.success(`Built ${packageName}`);
+      this.logger.step({
+        package: packageName,
+        phase: "build",
+        status: "success",
+        duration: Date.now() - startedAt,
+        command: buildCommand,
+      });
       return true;
     } catch (error) {
-      this.logger.error(`Build failed: ${(error as Error).message}`);
+      this.reportFailure(`Build of ${packageName} failed`, error);
+      this.logger.step({
+        package: packageName,
+        phase: "build",
+        status: "failed",
+        duration: Date.now() - startedAt,
+        command: buildCommand,
+        error: (error as Error).message,
+        ...(error instanceof CommandError && {
+          output: error.tail().join("\n"),
+          logFile: error.logFile,
+        }),
+      });
       return false;
     }
   }
 
   /**
-   * Install dependencies in the current project
+   * Install dependencies in a project (the helper's project by default)
+   *
+   * With `force`, packages that are already present are reinstalled, which is
+   * needed to restore registry versions after a link has been removed.
    */
-  installDependencies(): boolean {
+  installDependencies(projectPath?: string, force: boolean = false): boolean {
     this.logger.start("Installing dependencies...");
 
     try {
-      execSync(`${this.packageManager} install`, { stdio: "ignore" });
+      let command = `${this.packageManager} install`;
+
+      // Yarn considers the install up to date after an unlink unless forced
+      if (force && this.packageManager === "yarn") {
+        command += " --force";
+      }
+
+      this.run(command, "install", projectPath || this.projectPath);
       this.logger.success("Dependencies installed");
       return true;
     } catch (error) {
-      this.logger.error(
-        `Failed to install dependencies: ${(error as Error).message}`
-      );
+      this.reportFailure("Failed to install dependencies", error);
       return false;
     }
   }
+
+  /**
+   * Run a package manager command, capturing its output for the logs
+   */
+  private run(command: string, label: string, cwd?: string): void {
+    runCommandSync(command, { label, cwd, logger: this.logger });
+  }
+
+  /**
+   * Log a failed command along with the end of its output, which usually
+   * explains what went wrong
+   */
+  private reportFailure(message: string, error: unknown): void {
+    this.logger.error(`${message}: ${(error as Error).message}`);
+
+    if (error instanceof CommandError) {
+      const tail = error.tail();
+      if (tail.length > 0) {
+        this.logger.info(tail.map((line) => `    ${line}`).join("\n"));
+      }
+      if (error.logFile) {
+        this.logger.info(
+          `Full output: ${path.relative(this.projectPath, error.logFile)}`
+        );
+      }
+    }
+  }
 }
@@ -0,0 +1,202 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DuplicatePeer } from "./types";
+import { Logger } from "./logger";
+import { getInstallPath } from "./node-modules";
+import { isWithin, readPackageJson, realpath } from "./package-files";
+
+// Directory inside a linked package's node_modules where peer copies replaced
+// by the project's are kept, so they can be restored when unlinking
+const PEER_BACKUP_DIR = ".local-linker-peers";
+
+/**
+ * Find the peer dependencies of a linked package that resolve to a different
+ * copy than the project's own, such as a second React
+ *
+ * Peers are resolved the way Node does, from the real location of the package
+ * installed in the project.
+ */
+export function findDuplicatePeers(
+  packageName: string,
+  peerDependencies: string[],
+  projectPath: string = process.cwd()
+): DuplicatePeer[] {
+  const installPath = realpath(getInstallPath(packageName, projectPath));
+  if (!fs.existsSync(installPath)) {
+    return [];
+  }
+
+  const duplicates: DuplicatePeer[] = [];
+
+  for (const peer of peerDependencies) {
+    const hostCopy = resolvePackage(peer, projectPath);
+    const packageCopy = resolvePackage(peer, installPath);
+
+    // A peer the project doesn't install can't be duplicated
+    if (!hostCopy || !packageCopy) {
+      continue;
+    }
+
+    const hostPath = realpath(hostCopy);
+    if (realpath(packageCopy) === hostPath) {
+      continue;
+    }
+
+    duplicates.push({
+      name: peer,
+      hostPath,
+      packagePath: packageCopy,
+      hostVersion: readVersion(hostCopy),
+      packageVersion: readVersion(packageCopy),
+      // Copies outside the package, such as those hoisted to the root of a
+      // workspace, are shared with other packages and left alone
+      fixable: isWithin(packageCopy, path.join(installPath, "node_modules")),
+    });
+  }
+
+  return duplicates;
+}
+
+/**
+ * Point a linked package's own copies of its peer dependencies at the
+ * project's copies, so both load the same instance
+ *
+ * The replaced copies are moved aside and brought back by `restorePeers`.
+ * Returns false when a copy couldn't be replaced.
+ */
+export function dedupePeers(
+  packageName: string,
+  duplicates: DuplicatePeer[],
+  logger: Logger,
+  projectPath: string = process.cwd()
+): boolean {
+  const packagePath = realpath(getInstallPath(packageName, projectPath));
+  let allDeduped = true;
+
+  for (const duplicate of duplicates) {
+    if (!duplicate.fixable) {
+      logger.warn(
+        `Can't dedupe ${duplicate.name} for ${packageName}, ${duplicate.packagePath} is shared with other packages`
+      );
+      allDeduped = false;
+      continue;
+    }
+
+    try {
+      const backupPath = path.join(
+        packagePath,
+        "node_modules",
+        PEER_BACKUP_DIR,
+        ...duplicate.name.split("/")
+      );
+      fs.rmSync(backupPath, { recursive: true, force: true });
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+      fs.renameSync(duplicate.packagePath, backupPath);
+
+      fs.symlinkSync(
+        duplicate.hostPath,
+        duplicate.packagePath,
+        process.platform === "win32" ? "junction" : "dir"
+      );
+      logger.success(
+        `${packageName} now uses the project's copy of ${duplicate.name}`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to dedupe ${duplicate.name} for ${packageName}: ${
+          (error as Error).message
+        }`
+      );
+      allDeduped = false;
+    }
+  }
+
+  return allDeduped;
+}
+
+/**
+ * Restore the peer dependency copies of a package that were replaced by
+ * `dedupePeers`
+ */
+export function restorePeers(packagePath: string, logger: Logger): void {
+  const nodeModules = path.join(packagePath, "node_modules");
+  const backupDir = path.join(nodeModules, PEER_BACKUP_DIR);
+  if (!fs.existsSync(backupDir)) {
+    return;
+  }
+
+  for (const name of listBackups(backupDir)) {
+    const originalPath = path.join(nodeModules, ...name.split("/"));
+
+    try {
+      // Only replace the link created by dedupePeers
+      if (fs.lstatSync(originalPath).isSymbolicLink()) {
+        fs.unlinkSync(originalPath);
+      }
+    } catch {
+      // The link is already gone
+    }
+
+    try {
+      if (!fs.existsSync(originalPath)) {
+        fs.mkdirSync(path.dirname(originalPath), { recursive: true });
+        fs.renameSync(path.join(backupDir, ...name.split("/")), originalPath);
+      }
+    } catch (error) {
+      logger.warn(`Could not restore ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  fs.rmSync(backupDir, { recursive: true, force: true });
+}
+
+/**
+ * Describe a duplicate peer for warnings, such as
+ * "react 18.2.0 at ../ui/node_modules/react instead of the project's 18.3.1"
+ */
+export function describeDuplicatePeer(duplicate: DuplicatePeer): string {
+  const version = (value?: string) => (value ? ` ${value}` : "");
+  return `${duplicate.name}${version(duplicate.packageVersion)} at ${
+    duplicate.packagePath
+  } instead of the project's${version(duplicate.hostVersion)}`;
+}
+
+/**
+ * Find the directory a package name resolves to from a directory, walking up
+ * through the node_modules directories like Node does
+ */
+function resolvePackage(name: string, fromDir: string): string | null {
+  let dir = fromDir;
+
+  while (true) {
+    const candidate = path.join(dir, "node_modules", ...name.split("/"));
+    if (fs.existsSync(path.join(candidate, "package.json"))) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * List the package names kept in a backup directory, including scoped ones
+ */
+function listBackups(backupDir: string): string[] {
+  return fs
+    .readdirSync(backupDir)
+    .flatMap((entry) =>
+      entry.startsWith("@")
+        ? fs
+            .readdirSync(path.join(backupDir, entry))
+            .map((scoped) => `${entry}/${scoped}`)
+        : [entry]
+    );
+}
+
+function readVersion(packageDir: string): string | undefined {
+  return (readPackageJson(packageDir) || {}).version;
+}
@@ -0,0 +1,307 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LinkPlan, LocalPackages, PackageConfig, PlanStep } from "./types";
+import { colors, log, Logger } from "./logger";
+import {
+  detectPackageManagerForPath,
+  PackageManagerCommands,
+} from "./package-manager";
+import { BuildCache } from "./build-cache";
+import {
+  buildDependencyGraph,
+  getBuildDependencies,
+  getTopologicalOrder,
+} from "./dependency-graph";
+import { checkCompatibility } from "./compatibility";
+import { findNestedConfigLayers, loadNestedConfig } from "./config";
+import { getInstallPath, getPackDirectory } from "./node-modules";
+import { getOutputDirectory, readPackageJson } from "./package-files";
+
+/**
+ * Work out what linking packages would do, without doing any of it
+ *
+ * Package managers, the dependency order, the build cache and the
+ * configuration of nested packages are resolved the way linkAllPackages and
+ * linkRecursiveDependencies resolve them, but nothing is built, linked or
+ * written.
+ */
+export function createLinkPlan(
+  localPackages: LocalPackages,
+  pmCommands: PackageManagerCommands,
+  logger: Logger,
+  resolveDependencies: boolean = false,
+  recursive: boolean = false,
+  force: boolean = false,
+  strict: boolean = false
+): LinkPlan {
+  const projectPath = pmCommands.getProjectPath();
+  const graph = buildDependencyGraph(localPackages, logger, projectPath);
+  const topologicalOrder = getTopologicalOrder(graph, logger);
+  const unordered = Object.keys(localPackages).filter(
+    (name) => !topologicalOrder.includes(name)
+  );
+
+  const plan: LinkPlan = {
+    project: projectPath,
+    packageManager: pmCommands.getPackageManager(),
+    order: resolveDependencies
+      ? [...topologicalOrder, ...unordered]
+      : Object.keys(localPackages),
+    steps: [],
+    nested: [],
+    problems: [],
+  };
+
+  // Dependencies are fingerprinted first, as builds wait for them
+  const buildCache = new BuildCache(force, projectPath);
+  const unchanged = new Set<string>();
+  for (const name of [...topologicalOrder, ...unordered]) {
+    const absPath = resolvePath(localPackages[name], projectPath);
+    if (!fs.existsSync(path.join(absPath, "package.json"))) {
+      continue;
+    }
+    const fingerprint = buildCache.fingerprint(
+      name,
+      absPath,
+      localPackages[name],
+      getBuildDependencies(graph, topologicalOrder, name)
+    );
+    if (
+      buildCache.isUpToDate(
+        name,
+        fingerprint,
+        getOutputDirectory(absPath, localPackages[name])
+      )
+    ) {
+      unchanged.add(name);
+    }
+  }
+
+  for (const name of plan.order) {
+    const info = graph.get(name);
+    const problems = info ? checkCompatibility(info, projectPath) : [];
+    if (strict && problems.length > 0) {
+      plan.problems.push(
+        `${name} is not linked because of --strict: ${problems.join("; ")}`
+      );
+      continue;
+    }
+    problems.forEach((problem) => logger.warn(problem));
+
+    planPackage(
+      plan,
+      name,
+      localPackages[name],
+      pmCommands,
+      logger,
+      unchanged.has(name)
+    );
+  }
+
+  if (recursive) {
+    const processed = new Set<string>();
+    for (const [name, config] of Object.entries(localPackages)) {
+      planNestedPackages(plan, name, config, projectPath, logger, processed);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Add the steps that build a package and link it into the project of the
+ * package manager commands
+ */
+function planPackage(
+  plan: LinkPlan,
+  packageName: string,
+  config: PackageConfig,
+  mainPmCommands: PackageManagerCommands,
+  logger: Logger,
+  unchanged: boolean = false
+): void {
+  const projectPath = mainPmCommands.getProjectPath();
+  const absPath = resolvePath(config, projectPath);
+
+  const packageJson = readPackageJson(absPath);
+  if (!packageJson) {
+    plan.problems.push(
+      fs.existsSync(absPath)
+        ? `${packageName} has no readable package.json in ${absPath}`
+        : `${packageName} doesn't exist at ${absPath}`
+    );
+    return;
+  }
+
+  // Each package is built and registered with its own package manager
+  const packageManager = detectPackageManagerForPath(absPath);
+  const packagePmCommands = new PackageManagerCommands(
+    packageManager,
+    logger,
+    projectPath
+  );
+
+  const step = (fields: Omit<PlanStep, "package" | "project">) => {
+    plan.steps.push({ package: packageName, project: projectPath, ...fields });
+  };
+
+  if (
+    !config.buildCommand &&
+    (!packageJson.scripts || !packageJson.scripts.build)
+  ) {
+    step({ phase: "build", description: "No build script, nothing to build" });
+  } else {
+    step({
+      phase: "build",
+      description: `Build ${packageName}`,
+      command: packagePmCommands.getBuildCommand(config.buildCommand),
+      cwd: absPath,
+      packageManager,
+      note: unchanged
+        ? "Unchanged since the last build, so the build is skipped"
+        : undefined,
+    });
+  }
+
+  const installPath = path.relative(
+    projectPath,
+    getInstallPath(packageName, projectPath)
+  );
+
+  if (config.strategy === "direct") {
+    step({
+      phase: "link",
+      description: `Symlink ${installPath} to ${absPath} and link its bins`,
+    });
+    return;
+  }
+
+  if (config.strategy === "pack") {
+    step({
+      phase: "link",
+      description: `Pack ${packageName}`,
+      ...packagePmCommands.getPackCommand(
+        absPath,
+        getPackDirectory(packageName, projectPath)
+      ),
+      packageManager,
+    });
+    step({
+      phase: "link",
+      description: `Extract the tarball into ${installPath} and link its bins`,
+    });
+    return;
+  }
+
+  step({
+    phase: "link",
+    description: `Register ${packageName} as a global link`,
+    ...packagePmCommands.getGlobalLinkCommand(absPath),
+    packageManager,
+  });
+  step({
+    phase: "link",
+    description: `Link ${packageName} into the project`,
+    ...mainPmCommands.getProjectLinkCommand(packageName),
+    packageManager: mainPmCommands.getPackageManager(),
+  });
+}
+
+/**
+ * Add the steps that link the local dependencies of a package with its own
+ * configuration into it, recursively
+ */
+function planNestedPackages(
+  plan: LinkPlan,
+  packageName: string,
+  config: PackageConfig,
+  projectPath: string,
+  logger: Logger,
+  processed: Set<string>
+): void {
+  // Avoid infinite recursion
+  const packageKey = `${packageName}:${config.path}`;
+  if (processed.has(packageKey)) {
+    return;
+  }
+  processed.add(packageKey);
+
+  const absPath = resolvePath(config, projectPath);
+  if (findNestedConfigLayers(absPath).length === 0) {
+    return;
+  }
+
+  const { entries } = loadNestedConfig(absPath);
+  if (entries.length === 0) {
+    return;
+  }
+  plan.nested.push(packageName);
+
+  // Nested links are made in the package with its own package manager
+  const packagePmCommands = new PackageManagerCommands(
+    detectPackageManagerForPath(absPath),
+    logger,
+    absPath
+  );
+
+  for (const { name, config: nestedConfig } of entries) {
+    const resolvedConfig = {
+      ...nestedConfig,
+      path: resolvePath(nestedConfig, absPath),
+    };
+
+    planPackage(plan, name, resolvedConfig, packagePmCommands, logger);
+    planNestedPackages(plan, name, resolvedConfig, absPath, logger, processed);
+  }
+}
+
+function resolvePath(config: PackageConfig, projectPath: string): string {
+  return path.isAbsolute(config.path)
+    ? config.path
+    : path.resolve(projectPath, config.path);
+}
+
+/**
+ * Print a plan as the steps of each package, followed by its problems
+ */
+export function printLinkPlan(plan: LinkPlan): void {
+  log(
+    `\nPlan for ${plan.project} (${plan.packageManager}), nothing is run:`,
+    "cyan"
+  );
+  if (plan.order.length > 1) {
+    console.log(`Order: ${plan.order.join(" → ")}`);
+  }
+
+  let current = "";
+  for (const step of plan.steps) {
+    const heading =
+      step.project === plan.project
+        ? step.package
+        : `${step.package} → ${path.relative(plan.project, step.project)}`;
+    if (heading !== current) {
+      log(`\n${heading}`, "blue");
+      current = heading;
+    }
+
+    console.log(`  ${step.phase.padEnd(5)}  ${step.description}`);
+    if (step.command) {
+      console.log(
+        `         ${colors.magenta}$ ${step.command}${colors.reset}` +
+          ` (${step.packageManager} in ${step.cwd})`
+      );
+    }
+    if (step.note) {
+      log(`         ${step.note}`, "yellow");
+    }
+  }
+
+  if (plan.nested.length > 0) {
+    log(`\nLinked recursively into: ${plan.nested.join(", ")}`, "cyan");
+  }
+
+  if (plan.problems.length > 0) {
+    console.log("");
+    plan.problems.forEach((problem) => log(`⚠️ ${problem}`, "yellow"));
+  }
+}
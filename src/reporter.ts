@@ -0,0 +1,108 @@
+import {
+  LinkPlan,
+  LogLevel,
+  RunSummary,
+  StepEvent,
+  WatchChangeEvent,
+} from "./types";
+import { PrettyReporter } from "./logger";
+
+// Reporters that can be chosen with --reporter
+export const REPORTERS = ["pretty", "json", "ndjson", "silent"];
+
+/**
+ * Receives everything the Logger reports and decides how to show it
+ */
+export interface Reporter {
+  log(level: LogLevel, message: string): void;
+  output(label: string, stream: "stdout" | "stderr", line: string): void;
+  step(event: StepEvent): void;
+  change(event: WatchChangeEvent): void;
+  summary(summary: RunSummary): void;
+  plan(plan: LinkPlan): void; // What a dry run would do
+  withoutSpinner(): Reporter; // Variant for work that runs in parallel
+}
+
+/**
+ * Reporter for scripts and editors, writing one JSON object per line
+ *
+ * Every object has a `type` of log, output, step, change, summary or plan and
+ * the time it was written, followed by the fields of the message, command
+ * output line, step, watched file change, summary or dry run plan.
+ */
+export class JsonReporter implements Reporter {
+  log(level: LogLevel, message: string): void {
+    this.write("log", { level, message: message.trim() });
+  }
+
+  output(label: string, stream: "stdout" | "stderr", line: string): void {
+    this.write("output", { package: label, stream, line });
+  }
+
+  step(event: StepEvent): void {
+    this.write("step", event);
+  }
+
+  change(event: WatchChangeEvent): void {
+    this.write("change", event);
+  }
+
+  summary(summary: RunSummary): void {
+    this.write("summary", summary);
+  }
+
+  plan(plan: LinkPlan): void {
+    this.write("plan", plan);
+  }
+
+  withoutSpinner(): Reporter {
+    return this;
+  }
+
+  private write(type: string, fields: object): void {
+    console.log(
+      JSON.stringify({ type, time: new Date().toISOString(), ...fields })
+    );
+  }
+}
+
+/**
+ * Reporter that shows nothing, for embedding the tool in other programs
+ */
+export class SilentReporter implements Reporter {
+  log(): void {}
+
+  output(): void {}
+
+  step(): void {}
+
+  change(): void {}
+
+  summary(): void {}
+
+  plan(): void {}
+
+  withoutSpinner(): Reporter {
+    return this;
+  }
+}
+
+/**
+ * Create the reporter with the given name, or null if there is none
+ */
+export function createReporter(
+  name: string,
+  useSpinner: boolean = true
+): Reporter | null {
+  switch (name) {
+    case "pretty":
+      return new PrettyReporter(useSpinner);
+    case "json":
+    case "ndjson":
+      return new JsonReporter();
+    case "silent":
+      return new SilentReporter();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import * as path from "path";
+import { WORK_DIR } from "./config";
+
+// Directory inside the work directory holding a directory of logs per run
+export const LOGS_DIR = "logs";
+
+// Number of runs whose logs are kept
+const KEPT_RUNS = 10;
+
+/**
+ * Choose the log directory of this run and remove the logs of old runs
+ *
+ * The directory is only created once a command writes to it.
+ */
+export function createRunLogDirectory(
+  projectPath: string = process.cwd()
+): string {
+  const logsPath = path.join(projectPath, WORK_DIR, LOGS_DIR);
+
+  // Timestamps sort in the order the runs started
+  try {
+    const runs = fs.readdirSync(logsPath).sort();
+    runs
+      .slice(0, Math.max(0, runs.length - (KEPT_RUNS - 1)))
+      .forEach((run) =>
+        fs.rmSync(path.join(logsPath, run), { recursive: true, force: true })
+      );
+  } catch {
+    // No logs yet
+  }
+
+  return path.join(logsPath, new Date().toISOString().replace(/[:.]/g, "-"));
+}
+
+/**
+ * Append the output of a command to the log file of the package it ran for
+ *
+ * Returns the path of the log file, or undefined if it couldn't be written.
+ */
+export function writeCommandLog(
+  logDirectory: string,
+  label: string,
+  command: string,
+  cwd: string | undefined,
+  output: string,
+  outcome: string
+): string | undefined {
+  const logFile = startCommandLog(logDirectory, label, command, cwd);
+  if (logFile) {
+    appendCommandLog(
+      logFile,
+      output +
+        (output && !output.endsWith("\n") ? "\n" : "") +
+        `\n# ${outcome}\n\n`
+    );
+  }
+  return logFile;
+}
+
+/**
+ * Start the log of a command in the log file of the package it runs for,
+ * for long-running commands whose output is appended as it is printed
+ *
+ * Returns the path of the log file, or undefined if it couldn't be written.
+ */
+export function startCommandLog(
+  logDirectory: string,
+  label: string,
+  command: string,
+  cwd: string | undefined
+): string | undefined {
+  // Scoped names contain a slash, which can't be part of a file name
+  const logFile = path.join(logDirectory, `${label.replace("/", "+")}.log`);
+
+  try {
+    fs.mkdirSync(logDirectory, { recursive: true });
+    fs.appendFileSync(
+      logFile,
+      `$ ${command}\n` +
+        (cwd ? `# in ${cwd}\n` : "") +
+        `# at ${new Date().toISOString()}\n\n`
+    );
+    return logFile;
+  } catch {
+    // Logs are a convenience, so failing to write them doesn't fail the run
+    return undefined;
+  }
+}
+
+/**
+ * Append output to a log file started with startCommandLog
+ */
+export function appendCommandLog(logFile: string, text: string): void {
+  try {
+    fs.appendFileSync(logFile, text);
+  } catch {
+    // Logs are a convenience, so failing to write them doesn't fail the run
+  }
+}
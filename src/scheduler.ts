@@ -0,0 +1,85 @@
+/**
+ * Outcome of a scheduled task
+ */
+export type TaskStatus = "success" | "failed" | "skipped";
+
+/**
+ * Run a task for each name once the tasks of its dependencies have
+ * succeeded, with at most `concurrency` tasks running at a time
+ *
+ * Tasks whose dependencies failed or were skipped are skipped themselves, so
+ * a failure only affects its dependents. A task that throws has failed, and
+ * its error is passed to `onError`. Dependencies must not be circular.
+ */
+export function runScheduled(
+  names: string[],
+  getDependencies: (name: string) => string[],
+  concurrency: number,
+  task: (name: string) => Promise<boolean>,
+  onSkip?: (name: string, dependency: string) => void,
+  onError?: (name: string, error: unknown) => void
+): Promise<Map<string, TaskStatus>> {
+  return new Promise((resolve) => {
+    const results = new Map<string, TaskStatus>();
+    const pending = [...names];
+    let running = 0;
+
+    // Only dependencies that are scheduled themselves need to finish first
+    const dependenciesOf = (name: string) =>
+      getDependencies(name).filter((dep) => names.includes(dep));
+
+    const start = (name: string) => {
+      pending.splice(pending.indexOf(name), 1);
+      running++;
+
+      task(name)
+        .catch((error) => {
+          if (onError) {
+            onError(name, error);
+          }
+          return false;
+        })
+        .then((success) => {
+          results.set(name, success ? "success" : "failed");
+          running--;
+          schedule();
+        });
+    };
+
+    const schedule = () => {
+      let changed = true;
+
+      while (changed) {
+        changed = false;
+
+        for (const name of [...pending]) {
+          const dependencies = dependenciesOf(name);
+          const blocking = dependencies.find(
+            (dep) => results.has(dep) && results.get(dep) !== "success"
+          );
+
+          if (blocking) {
+            pending.splice(pending.indexOf(name), 1);
+            results.set(name, "skipped");
+            if (onSkip) {
+              onSkip(name, blocking);
+            }
+            changed = true;
+          } else if (
+            running < Math.max(1, concurrency) &&
+            dependencies.every((dep) => results.get(dep) === "success")
+          ) {
+            start(name);
+            changed = true;
+          }
+        }
+      }
+
+      if (pending.length === 0 && running === 0) {
+        resolve(results);
+      }
+    };
+
+    schedule();
+  });
+}
@@ -0,0 +1,269 @@
+import * as fs from "fs";
+import * as path from "path";
+import { escapePointer } from "./json-source";
+
+// Published JSON schema for structured configuration files
+export const CONFIG_SCHEMA_PATH = path.resolve(
+  __dirname,
+  "..",
+  "schema",
+  "localpackages.schema.json"
+);
+
+// URL the published schema is available at
+export const CONFIG_SCHEMA_URL =
+  "https://unpkg.com/@lume-io/local-linker/schema/localpackages.schema.json";
+
+/**
+ * The subset of JSON schema used by the configuration schema
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minLength?: number;
+  minimum?: number;
+  anyOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  description?: string;
+}
+
+/**
+ * A value that doesn't match the schema
+ */
+export interface SchemaError {
+  pointer: string; // JSON pointer of the offending value
+  message: string;
+  atKey?: boolean; // True when the property name itself is the problem
+}
+
+interface InternalSchemaError extends SchemaError {
+  typeMismatch?: boolean;
+}
+
+/**
+ * Load the configuration schema shipped with the package
+ */
+export function loadConfigSchema(): JsonSchema {
+  return JSON.parse(fs.readFileSync(CONFIG_SCHEMA_PATH, "utf8"));
+}
+
+/**
+ * Validate a value against a schema
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema
+): SchemaError[] {
+  return validate(value, schema, schema, "").map(
+    ({ pointer, message, atKey }) => ({ pointer, message, atKey })
+  );
+}
+
+/**
+ * Get the JSON type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  } else if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+/**
+ * Describe the value at a pointer for use in messages
+ */
+function describePointer(pointer: string): string {
+  if (!pointer) {
+    return "Configuration";
+  }
+
+  const segments = pointer
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const last = segments[segments.length - 1];
+
+  // Array items are described by their position in the parent
+  if (/^\d+$/.test(last) && segments.length > 2) {
+    return `Item ${Number(last) + 1} of "${segments[segments.length - 2]}"`;
+  }
+
+  return `"${last}"`;
+}
+
+/**
+ * Resolve a local "#/definitions/name" reference
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.replace(/^#\/definitions\//, "");
+  const resolved = root.definitions && root.definitions[name];
+  if (!resolved) {
+    throw new Error(`Unknown schema reference ${ref}`);
+  }
+  return resolved;
+}
+
+function validate(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  pointer: string
+): InternalSchemaError[] {
+  if (schema.$ref) {
+    return validate(value, resolveRef(root, schema.$ref), root, pointer);
+  }
+
+  if (schema.anyOf) {
+    return validateAnyOf(value, schema.anyOf, root, pointer);
+  }
+
+  const name = describePointer(pointer);
+  const actualType = typeOf(value);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.some(
+      (type) =>
+        type === actualType || (type === "integer" && Number.isInteger(value))
+    );
+
+    if (!matches) {
+      return [
+        {
+          pointer,
+          message: `${name} must be ${types.map(withArticle).join(" or ")}`,
+          typeMismatch: true,
+        },
+      ];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      {
+        pointer,
+        message: `${name} must be one of: ${schema.enum.join(", ")}`,
+      },
+    ];
+  }
+
+  const errors: InternalSchemaError[] = [];
+
+  if (
+    typeof value === "string" &&
+    schema.minLength !== undefined &&
+    value.length < schema.minLength
+  ) {
+    errors.push({ pointer, message: `${name} must not be empty` });
+  }
+
+  if (
+    typeof value === "number" &&
+    schema.minimum !== undefined &&
+    value < schema.minimum
+  ) {
+    errors.push({
+      pointer,
+      message: `${name} must be at least ${schema.minimum}`,
+    });
+  }
+
+  if (actualType === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(
+        ...validate(
+          item,
+          schema.items as JsonSchema,
+          root,
+          `${pointer}/${index}`
+        )
+      );
+    });
+  }
+
+  if (actualType === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in object)) {
+        errors.push({
+          pointer,
+          message: `${name} is missing required property "${key}"`,
+        });
+      }
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      const childPointer = `${pointer}/${escapePointer(key)}`;
+
+      if (properties[key]) {
+        errors.push(...validate(child, properties[key], root, childPointer));
+      } else if (schema.additionalProperties === false) {
+        errors.push({
+          pointer: childPointer,
+          message: `Unknown property "${key}"`,
+          atKey: true,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validate(child, schema.additionalProperties, root, childPointer)
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a value that must match at least one of several schemas
+ */
+function validateAnyOf(
+  value: unknown,
+  branches: JsonSchema[],
+  root: JsonSchema,
+  pointer: string
+): InternalSchemaError[] {
+  const results = branches.map((branch) =>
+    validate(value, branch, root, pointer)
+  );
+
+  if (results.some((errors) => errors.length === 0)) {
+    return [];
+  }
+
+  // Report the problems of the branch whose type matches the value
+  const matchingType = results.find(
+    (errors) =>
+      !errors.some((error) => error.typeMismatch && error.pointer === pointer)
+  );
+  if (matchingType) {
+    return matchingType;
+  }
+
+  const types = branches.map((branch) => {
+    const resolved = branch.$ref ? resolveRef(root, branch.$ref) : branch;
+    return resolved.enum
+      ? resolved.enum.map((value) => JSON.stringify(value)).join(" or ")
+      : withArticle(String(resolved.type));
+  });
+
+  return [
+    {
+      pointer,
+      message: `${describePointer(pointer)} must be ${types.join(" or ")}`,
+      typeMismatch: true,
+    },
+  ];
+}
+
+function withArticle(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
@@ -0,0 +1,123 @@
+import { LocalPackages, PackageSelection, ToolConfig } from "./types";
+import { Logger } from "./logger";
+import { buildDependencyGraph, getUpstreamPackages } from "./dependency-graph";
+
+/**
+ * Combine a named profile with selections given on the command line
+ *
+ * Returns null if the profile doesn't exist.
+ */
+export function resolveSelection(
+  selection: PackageSelection,
+  profileName: string | undefined,
+  toolConfig: ToolConfig,
+  logger: Logger
+): PackageSelection | null {
+  if (!profileName) {
+    return selection;
+  }
+
+  const profile = toolConfig.profiles && toolConfig.profiles[profileName];
+  if (!profile) {
+    const available = Object.keys(toolConfig.profiles || {});
+    logger.error(
+      `Unknown profile '${profileName}'` +
+        (available.length > 0
+          ? `, available profiles: ${available.join(", ")}`
+          : ", define profiles in the localLinker block of package.json")
+    );
+    return null;
+  }
+
+  return {
+    only: [...(profile.only || []), ...(selection.only || [])],
+    except: [...(profile.except || []), ...(selection.except || [])],
+    groups: [...(profile.groups || []), ...(selection.groups || [])],
+  };
+}
+
+/**
+ * Check whether a selection narrows down the packages at all
+ */
+export function isSelectionEmpty(selection: PackageSelection): boolean {
+  return (
+    !(selection.only && selection.only.length) &&
+    !(selection.except && selection.except.length) &&
+    !(selection.groups && selection.groups.length)
+  );
+}
+
+/**
+ * Select a subset of the configured packages
+ *
+ * Packages named with `only` and the members of `groups` are selected (all
+ * packages when neither is given), along with the local packages they depend
+ * on. Packages named with `except` are always left out.
+ */
+export function selectPackages(
+  localPackages: LocalPackages,
+  selection: PackageSelection,
+  logger: Logger,
+  projectPath: string = process.cwd()
+): LocalPackages {
+  if (isSelectionEmpty(selection)) {
+    return localPackages;
+  }
+
+  const only = selection.only || [];
+  const except = selection.except || [];
+  const groups = selection.groups || [];
+  const allNames = Object.keys(localPackages);
+
+  for (const name of [...only, ...except]) {
+    if (!localPackages[name]) {
+      logger.warn(`${name} is not a configured package`);
+    }
+  }
+
+  for (const group of groups) {
+    if (!allNames.some((name) => isInGroup(localPackages, name, group))) {
+      logger.warn(`No packages belong to group '${group}'`);
+    }
+  }
+
+  let selected =
+    only.length === 0 && groups.length === 0
+      ? allNames
+      : allNames.filter(
+          (name) =>
+            only.includes(name) ||
+            groups.some((group) => isInGroup(localPackages, name, group))
+        );
+
+  // Pull in the local packages the selected ones need to build
+  if (selected.length > 0 && selected.length < allNames.length) {
+    const graph = buildDependencyGraph(localPackages, logger, projectPath);
+    const upstream = getUpstreamPackages(graph, selected);
+    const added = upstream.filter((name) => !selected.includes(name));
+
+    if (added.length > 0) {
+      logger.info(`Including local dependencies: ${added.join(", ")}`);
+    }
+    // Keep the configured order
+    selected = allNames.filter((name) => upstream.includes(name));
+  }
+
+  selected = selected.filter((name) => !except.includes(name));
+
+  logger.info(`Selected packages: ${selected.join(", ") || "none"}`);
+
+  return selected.reduce<LocalPackages>((acc, name) => {
+    acc[name] = localPackages[name];
+    return acc;
+  }, {});
+}
+
+function isInGroup(
+  localPackages: LocalPackages,
+  name: string,
+  group: string
+): boolean {
+  const groups = localPackages[name].groups;
+  return !!groups && groups.includes(group);
+}
@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+import {
+  LinkedPackageState,
+  LinkState,
+  LocalPackages,
+  PackageConfig,
+  PackageManager,
+} from "./types";
+import { Logger } from "./logger";
+import { CONFIG_FILE } from "./config";
+import { detectPackageManagerForPath } from "./package-manager";
+import { readPackageJson } from "./package-files";
+import { readPackMarker } from "./node-modules";
+
+// State filename
+export const STATE_FILE = ".localpackages.lock";
+
+// Version of the state file format
+const STATE_VERSION = 1;
+
+/**
+ * Read the state file of a project, if one exists
+ */
+export function readState(
+  projectPath: string = process.cwd()
+): LinkState | null {
+  const statePath = path.resolve(projectPath, STATE_FILE);
+  if (!fs.existsSync(statePath)) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, "utf8"));
+    return {
+      ...state,
+      packages: state.packages || {},
+      nested: state.nested || {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the state file, or create an empty state for the given package manager
+ */
+export function loadState(
+  packageManager: PackageManager,
+  projectPath: string = process.cwd()
+): LinkState {
+  const state = readState(projectPath);
+  if (state) {
+    return { ...state, packageManager };
+  }
+
+  return {
+    version: STATE_VERSION,
+    packageManager,
+    updatedAt: new Date().toISOString(),
+    packages: {},
+    nested: {},
+  };
+}
+
+/**
+ * Write the state file of a project
+ */
+export function saveState(
+  state: LinkState,
+  logger: Logger,
+  projectPath: string = process.cwd()
+): void {
+  const statePath = path.resolve(projectPath, STATE_FILE);
+
+  try {
+    const contents: LinkState = {
+      ...state,
+      version: STATE_VERSION,
+      updatedAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(statePath, JSON.stringify(contents, null, 2) + "\n");
+  } catch (error) {
+    logger.warn(`Could not write ${STATE_FILE}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Describe a package that has just been linked into a project
+ */
+export function describeLinkedPackage(
+  packageName: string,
+  config: PackageConfig,
+  absPath: string,
+  projectPath: string
+): LinkedPackageState {
+  return {
+    path: absPath,
+    configuredPath: config.path,
+    packageManager: detectPackageManagerForPath(absPath),
+    strategy: config.strategy || "link",
+    version: readPackageVersion(absPath),
+    commit: readGitCommit(absPath),
+    packed:
+      config.strategy === "pack"
+        ? readPackMarker(packageName, projectPath)
+        : undefined,
+    linkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the version from a package's package.json
+ */
+function readPackageVersion(packagePath: string): string | undefined {
+  return (readPackageJson(packagePath) || {}).version;
+}
+
+/**
+ * Read the current git commit of a package checkout
+ */
+function readGitCommit(packagePath: string): string | undefined {
+  try {
+    return execSync("git rev-parse HEAD", {
+      cwd: packagePath,
+      stdio: ["ignore", "pipe", "ignore"],
+    })
+      .toString()
+      .trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compare the configuration with what was last linked and warn about drift
+ *
+ * Returns true when the configuration and the state file agree.
+ */
+export function reportDrift(
+  localPackages: LocalPackages,
+  state: LinkState | null,
+  logger: Logger,
+  projectPath: string = process.cwd()
+): boolean {
+  if (!state) {
+    return true;
+  }
+
+  let inSync = true;
+
+  for (const [packageName, linked] of Object.entries(state.packages)) {
+    const config = localPackages[packageName];
+
+    if (!config) {
+      logger.warn(
+        `${packageName} is still linked from ${linked.path} but is no longer in ${CONFIG_FILE}`
+      );
+      inSync = false;
+      continue;
+    }
+
+    const absPath = path.isAbsolute(config.path)
+      ? config.path
+      : path.resolve(projectPath, config.path);
+
+    if (absPath !== linked.path) {
+      logger.warn(
+        `${packageName} is configured at ${absPath} but was linked from ${linked.path}`
+      );
+      inSync = false;
+    } else if (!fs.existsSync(linked.path)) {
+      logger.warn(
+        `${packageName} was linked from ${linked.path}, which no longer exists`
+      );
+      inSync = false;
+    }
+  }
+
+  return inSync;
+}
@@ -0,0 +1,345 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as semver from "semver";
+import {
+  DependencyField,
+  LinkedPackageState,
+  LinkState,
+  LocalPackages,
+  PackageConfig,
+  PackageStatus,
+  StatusReport,
+} from "./types";
+import { colors, log } from "./logger";
+import { findNestedConfigLayers, loadNestedConfig } from "./config";
+import { getInstallPath, readPackMarker } from "./node-modules";
+import { readState } from "./state";
+import {
+  getOutputDirectory,
+  listSourceFiles,
+  readPackageJson,
+  realpath,
+} from "./package-files";
+import { describeDuplicatePeer, findDuplicatePeers } from "./peer-dependencies";
+import { printTable } from "./table";
+
+// Dependency fields of a package.json that can declare a linked package
+const DEPENDENCY_FIELDS: DependencyField[] = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+
+// How each install status is shown in the table
+const INSTALL_LABELS: Record<PackageStatus["install"], string> = {
+  linked: `${colors.green}linked${colors.reset}`,
+  copied: `${colors.green}copied${colors.reset}`,
+  elsewhere: `${colors.red}elsewhere${colors.reset}`,
+  registry: `${colors.red}registry${colors.reset}`,
+  missing: `${colors.red}missing${colors.reset}`,
+};
+
+/**
+ * Check the configured packages against the project's node_modules, and with
+ * `recursive` the packages linked into them
+ */
+export function collectStatus(
+  localPackages: LocalPackages,
+  recursive: boolean = false,
+  projectPath: string = process.cwd()
+): StatusReport {
+  const state = readState(projectPath);
+  const report: StatusReport = {
+    project: projectPath,
+    packages: Object.entries(localPackages).map(([name, config]) =>
+      getPackageStatus(
+        name,
+        config,
+        projectPath,
+        state ? state.packages[name] : undefined
+      )
+    ),
+    nested: {},
+  };
+
+  if (recursive) {
+    collectNestedStatus(localPackages, projectPath, report, state, new Set());
+  }
+
+  return report;
+}
+
+/**
+ * Check the packages linked into packages that have a configuration of their
+ * own, recursively
+ */
+function collectNestedStatus(
+  localPackages: LocalPackages,
+  projectPath: string,
+  report: StatusReport,
+  state: LinkState | null,
+  visited: Set<string>
+): void {
+  for (const config of Object.values(localPackages)) {
+    const absPath = path.resolve(projectPath, config.path);
+    if (visited.has(absPath) || findNestedConfigLayers(absPath).length === 0) {
+      continue;
+    }
+    visited.add(absPath);
+
+    const nestedPackages = loadNestedConfig(
+      absPath
+    ).entries.reduce<LocalPackages>((acc, entry) => {
+      acc[entry.name] = entry.config;
+      return acc;
+    }, {});
+
+    const nestedState = state ? state.nested[absPath] : undefined;
+    report.nested[absPath] = Object.entries(nestedPackages).map(
+      ([name, nestedConfig]) =>
+        getPackageStatus(
+          name,
+          nestedConfig,
+          absPath,
+          nestedState ? nestedState[name] : undefined
+        )
+    );
+
+    collectNestedStatus(nestedPackages, absPath, report, state, visited);
+  }
+}
+
+/**
+ * Check how a single package is installed in a project, against the state
+ * recorded when it was linked
+ */
+export function getPackageStatus(
+  name: string,
+  config: PackageConfig,
+  projectPath: string = process.cwd(),
+  linked?: LinkedPackageState
+): PackageStatus {
+  const absPath = path.resolve(projectPath, config.path);
+  const installPath = getInstallPath(name, projectPath);
+  const status: PackageStatus = {
+    name,
+    path: absPath,
+    strategy: config.strategy || "link",
+    install: "missing",
+    problems: [],
+  };
+
+  let stats: fs.Stats | null = null;
+  try {
+    stats = fs.lstatSync(installPath);
+  } catch {
+    status.problems.push(`${name} is not installed in node_modules`);
+  }
+
+  if (stats) {
+    // Packed copies are told apart from registry installs by the hash of the
+    // tarball they came from, which is also recorded in the state file
+    const packed = readPackMarker(name, projectPath);
+
+    if (stats.isSymbolicLink()) {
+      status.target = realpath(installPath);
+      if (status.target === realpath(absPath)) {
+        status.install = "linked";
+      } else {
+        status.install = "elsewhere";
+        status.problems.push(
+          `node_modules/${name} points at ${status.target}, not ${absPath}`
+        );
+      }
+    } else if (status.strategy === "pack" && packed) {
+      status.install = "copied";
+      status.target = installPath;
+      if (linked && linked.packed && linked.packed !== packed) {
+        status.problems.push(
+          `node_modules/${name} isn't the copy packed by the last link`
+        );
+      }
+    } else {
+      status.install = "registry";
+      status.target = installPath;
+      status.problems.push(
+        `node_modules/${name} is a regular install, the ${
+          status.strategy === "pack" ? "packed copy" : "link"
+        } was replaced`
+      );
+    }
+
+    status.version = (readPackageJson(installPath) || {}).version;
+  }
+
+  // Compare the installed version with what the project asks for
+  const projectJson = readPackageJson(projectPath) || {};
+  for (const field of DEPENDENCY_FIELDS) {
+    const dependencies = projectJson[field];
+    if (dependencies && dependencies[name]) {
+      status.range = dependencies[name];
+      break;
+    }
+  }
+
+  if (status.range && status.version && semver.validRange(status.range)) {
+    status.satisfiesRange = semver.satisfies(status.version, status.range, {
+      includePrerelease: true,
+    });
+    if (!status.satisfiesRange) {
+      status.problems.push(
+        `Version ${status.version} doesn't satisfy ${status.range}`
+      );
+    }
+  }
+
+  // Peers resolving to a second copy break libraries like React
+  if (stats) {
+    status.duplicatePeers = findDuplicatePeers(
+      name,
+      Object.keys((readPackageJson(absPath) || {}).peerDependencies || {}),
+      projectPath
+    );
+    for (const duplicate of status.duplicatePeers) {
+      status.problems.push(
+        `Loads a second copy of ${describeDuplicatePeer(duplicate)}${
+          duplicate.fixable ? ", fix it with --dedupe-peers" : ""
+        }`
+      );
+    }
+  }
+
+  status.outputStale = isOutputStale(absPath, config);
+  if (status.outputStale) {
+    status.problems.push("Build output is older than the sources");
+  }
+
+  return status;
+}
+
+/**
+ * Check whether a package's build output is older than its sources
+ *
+ * Returns undefined for packages without a build.
+ */
+function isOutputStale(
+  absPath: string,
+  config: PackageConfig
+): boolean | undefined {
+  const packageJson = readPackageJson(absPath) || {};
+  const hasBuild =
+    !!config.buildCommand ||
+    !!config.devCommand ||
+    !!(packageJson.scripts && packageJson.scripts.build);
+  if (!hasBuild || !fs.existsSync(absPath)) {
+    return undefined;
+  }
+
+  const outputTime = getNewestModification(getOutputDirectory(absPath, config));
+  if (outputTime === 0) {
+    return true;
+  }
+
+  const sourceTime = Math.max(
+    0,
+    ...listSourceFiles(absPath, config).map(
+      (file) => fs.statSync(path.join(absPath, file)).mtimeMs
+    )
+  );
+
+  return sourceTime > outputTime;
+}
+
+/**
+ * Get the newest modification time of the files in a directory, or 0 when
+ * it doesn't exist or is empty
+ */
+function getNewestModification(dir: string): number {
+  let newest = 0;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules") {
+        newest = Math.max(newest, getNewestModification(entryPath));
+      }
+    } else if (entry.isFile()) {
+      newest = Math.max(newest, fs.statSync(entryPath).mtimeMs);
+    }
+  }
+
+  return newest;
+}
+
+/**
+ * Check whether a status report found no problems
+ */
+export function isStatusClean(report: StatusReport): boolean {
+  return [...report.packages, ...Object.values(report.nested).flat()].every(
+    (status) => status.problems.length === 0
+  );
+}
+
+/**
+ * Print a status report as tables, followed by the problems found
+ */
+export function printStatusReport(report: StatusReport): void {
+  printStatusTable("Linked packages", report.packages);
+
+  for (const [packagePath, packages] of Object.entries(report.nested)) {
+    printStatusTable(
+      `Linked into ${path.relative(report.project, packagePath)}`,
+      packages
+    );
+  }
+
+  const all = [
+    ...report.packages.map((status) => ({ status, prefix: "" })),
+    ...Object.entries(report.nested).flatMap(([packagePath, packages]) =>
+      packages.map((status) => ({
+        status,
+        prefix: `${path.relative(report.project, packagePath)} → `,
+      }))
+    ),
+  ];
+  const problems = all.flatMap(({ status, prefix }) =>
+    status.problems.map((problem) => `${prefix}${status.name}: ${problem}`)
+  );
+
+  if (problems.length === 0) {
+    log("\n✅ Everything is linked as configured", "green");
+    return;
+  }
+
+  console.log("");
+  problems.forEach((problem) => log(`⚠️ ${problem}`, "yellow"));
+}
+
+function printStatusTable(title: string, packages: PackageStatus[]): void {
+  const rows = packages.map((status) => [
+    status.name,
+    INSTALL_LABELS[status.install],
+    status.version || "-",
+    status.range
+      ? `${status.range}${status.satisfiesRange === false ? " ✗" : ""}`
+      : "-",
+    status.outputStale === undefined
+      ? "-"
+      : status.outputStale
+      ? "stale"
+      : "fresh",
+  ]);
+  printTable(
+    title,
+    ["Package", "Install", "Version", "Declared", "Build"],
+    rows
+  );
+}
@@ -0,0 +1,32 @@
+import { log } from "./logger";
+
+/**
+ * Print rows under a title, with the columns aligned
+ */
+export function printTable(
+  title: string,
+  header: string[],
+  rows: string[][]
+): void {
+  // Color codes don't take up any space
+  const visibleLength = (value: string) =>
+    value.replace(/\x1b\[\d+m/g, "").length;
+  const widths = header.map((label, column) =>
+    Math.max(
+      visibleLength(label),
+      ...rows.map((row) => visibleLength(row[column]))
+    )
+  );
+  const format = (row: string[]) =>
+    row
+      .map(
+        (value, column) =>
+          value + " ".repeat(widths[column] - visibleLength(value))
+      )
+      .join("  ")
+      .replace(/\s+$/, "");
+
+  log(`\n${title}:`, "cyan");
+  console.log(format(header));
+  rows.forEach((row) => console.log(format(row)));
+}
@@ -3,13 +3,95 @@
  */
 export type PackageManager = "npm" | "yarn" | "pnpm";
 
+/**
+ * How a local package is made available to the project
+ * - link: symlink through the package manager's global link registry
+ * - pack: pack the package and extract the tarball into node_modules
+ * - direct: symlink the package into node_modules without global state
+ */
+export type LinkStrategy = "link" | "pack" | "direct";
+
 /**
  * Configuration for a local package
  */
 export interface PackageConfig {
   path: string; // Path to the package
   buildCommand?: string; // Optional custom build command
+  devCommand?: string; // Optional long-running command used in watch mode
+  outputDir?: string; // Optional directory the dev command writes to
   watchPatterns?: string[]; // Optional custom watch patterns
+  ignore?: string[]; // Optional patterns of files that aren't sources
+  strategy?: LinkStrategy; // Optional link strategy, defaults to "link"
+  groups?: string[]; // Optional groups used to select packages
+}
+
+/**
+ * A position in a source file, both 1-based
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * A problem found while reading a configuration file
+ */
+export interface ConfigIssue {
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  severity: "error" | "warning";
+}
+
+/**
+ * A package entry read from a configuration file
+ */
+export interface ConfigEntry {
+  name: string;
+  config: PackageConfig;
+  file: string;
+  line?: number;
+}
+
+/**
+ * A reference to a package that disables an entry inherited from another
+ * configuration layer
+ */
+export interface DisabledEntry {
+  name: string;
+  file: string;
+  line?: number;
+}
+
+/**
+ * A variable defined in a configuration file for use in paths
+ */
+export interface ConfigVariable {
+  name: string;
+  value: string;
+  file: string;
+  line?: number;
+}
+
+/**
+ * Result of parsing a configuration file
+ */
+export interface ParsedConfig {
+  entries: ConfigEntry[];
+  issues: ConfigIssue[];
+  disabled: DisabledEntry[];
+  variables: ConfigVariable[];
+}
+
+/**
+ * Configuration merged from all layers that apply to a project
+ */
+export interface LoadedConfig {
+  files: string[]; // Configuration files, from lowest to highest precedence
+  layers: ParsedConfig[]; // Parsed contents of each file
+  entries: ConfigEntry[]; // Merged entries with expanded paths
+  issues: ConfigIssue[]; // Issues from all layers and from merging
 }
 
 /**
@@ -19,6 +101,32 @@ export interface LocalPackages {
   [packageName: string]: PackageConfig;
 }
 
+/**
+ * The fields of a package.json that local-linker reads
+ */
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  bin?: string | Record<string, string>;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+/**
+ * A field of a package.json that declares dependencies
+ */
+export type DependencyField =
+  | "dependencies"
+  | "devDependencies"
+  | "optionalDependencies"
+  | "peerDependencies";
+
 /**
  * Information about a package including dependencies
  */
@@ -28,6 +136,21 @@ export interface PackageInfo {
   dependencies: string[];
   devDependencies: string[];
   peerDependencies: string[];
+  version?: string; // Version from the package's package.json
+  // Declared ranges of the dependencies and peer dependencies, which are
+  // installed alongside the package once it is published
+  ranges: {
+    [dependencyName: string]: string;
+  };
+}
+
+/**
+ * Selection of a subset of the configured packages
+ */
+export interface PackageSelection {
+  only?: string[]; // Package names to include
+  except?: string[]; // Package names to exclude
+  groups?: string[]; // Groups whose packages are included
 }
 
 /**
@@ -37,4 +160,267 @@ export interface ToolConfig {
   useSpinner?: boolean;
   resolveDependencies?: boolean;
   recursiveLinks?: boolean;
+  strategy?: LinkStrategy;
+  concurrency?: number;
+  dedupePeers?: boolean;
+  strict?: boolean;
+  profiles?: {
+    [profileName: string]: PackageSelection;
+  };
+}
+
+/**
+ * Record of a package linked by the tool
+ */
+export interface LinkedPackageState {
+  path: string; // Resolved absolute path the package was linked from
+  configuredPath: string; // Path as written in the configuration
+  packageManager: PackageManager; // Package manager of the linked package
+  strategy: LinkStrategy; // Strategy used to link the package
+  version?: string; // Version from the package's package.json
+  commit?: string; // Git commit of the package checkout, if any
+  packed?: string; // Hash of the tarball copied by the pack strategy
+  linkedAt: string; // ISO timestamp of the last link
+}
+
+/**
+ * Contents of the state file written after each run
+ */
+export interface LinkState {
+  version: number;
+  packageManager: PackageManager; // Package manager of the host project
+  updatedAt: string;
+  packages: {
+    [packageName: string]: LinkedPackageState;
+  };
+  // Packages linked inside other local packages, keyed by the absolute path
+  // of the package they were linked into
+  nested: {
+    [packagePath: string]: {
+      [packageName: string]: LinkedPackageState;
+    };
+  };
+}
+
+/**
+ * Inputs of each package at its last successful build
+ */
+export interface BuildCacheState {
+  version: number;
+  packages: {
+    [packageName: string]: {
+      fingerprint: string; // Hash of the sources, manifest and dependencies
+      builtAt: string;
+      // Whether the build left files in the output directory, which has to
+      // still be there for the build to be skipped
+      output?: boolean;
+    };
+  };
+}
+
+/**
+ * A peer dependency that a linked package resolves to its own copy of
+ */
+export interface DuplicatePeer {
+  name: string;
+  hostPath: string; // Real path of the project's copy
+  packagePath: string; // Path of the copy the linked package resolves
+  hostVersion?: string;
+  packageVersion?: string;
+  fixable: boolean; // Whether the copy belongs to the linked package alone
+}
+
+/**
+ * How a package is installed in a project's node_modules
+ *
+ * - linked: a symlink to the configured path
+ * - copied: a packed copy made by the pack strategy
+ * - elsewhere: a symlink to a different path, such as an old checkout
+ * - registry: a regular install that replaced the link
+ * - missing: not installed at all
+ */
+export type InstallStatus =
+  | "linked"
+  | "copied"
+  | "elsewhere"
+  | "registry"
+  | "missing";
+
+/**
+ * Result of checking a configured package against node_modules
+ */
+export interface PackageStatus {
+  name: string;
+  path: string; // Configured path of the package
+  strategy: LinkStrategy;
+  install: InstallStatus;
+  target?: string; // Real path node_modules points at
+  version?: string; // Version installed in node_modules
+  range?: string; // Range declared in the project's package.json
+  satisfiesRange?: boolean; // Unset when the range isn't a semver range
+  outputStale?: boolean; // Unset when the package has no build
+  duplicatePeers?: DuplicatePeer[]; // Unset when the package isn't installed
+  problems: string[];
+}
+
+/**
+ * Status of the packages linked into a project and its nested packages
+ */
+export interface StatusReport {
+  project: string;
+  packages: PackageStatus[];
+  nested: {
+    [packagePath: string]: PackageStatus[];
+  };
+}
+
+/**
+ * Kind of message logged through the Logger
+ */
+export type LogLevel = "start" | "success" | "error" | "warn" | "info";
+
+/**
+ * Part of the work done for a package
+ *
+ * - build: running the package's build
+ * - link: making the package available to the project
+ * - watch: rebuilding and relinking the package after a change
+ */
+export type StepPhase = "build" | "link" | "watch";
+
+/**
+ * Outcome of a step, where unchanged means the build cache was used
+ *
+ * Steps that run a command are also reported as started before it runs.
+ */
+export type StepStatus =
+  | "started"
+  | "success"
+  | "failed"
+  | "skipped"
+  | "unchanged";
+
+/**
+ * A started or finished step for a single package
+ */
+export interface StepEvent {
+  package: string;
+  phase: StepPhase;
+  status: StepStatus;
+  duration?: number; // Milliseconds the step took
+  command?: string; // Command that was run, if any
+  error?: string; // Why the step failed or was skipped
+  output?: string; // Last lines printed by the command that failed
+  logFile?: string; // File with the full output of the command
+}
+
+/**
+ * Outcome of linking all packages
+ */
+export interface RunSummary {
+  success: boolean;
+  duration: number; // Milliseconds the whole run took
+  linked: string[];
+  unchanged: string[]; // Linked packages whose build was skipped
+  failed: string[];
+  failedBuilds: string[]; // Failed packages that didn't get past their build
+  skipped: string[];
+}
+
+/**
+ * Outcome of unlinking packages
+ */
+export interface UnlinkSummary {
+  success: boolean; // Whether everything was unlinked and reinstalled
+  unlinked: string[];
+  failed: string[];
+}
+
+/**
+ * A change to a watched file that triggers a rebuild
+ */
+export interface WatchChangeEvent {
+  packages: string[]; // Packages the file belongs to
+  event: string; // add, change, unlink, addDir or unlinkDir
+  path: string;
+}
+
+/**
+ * A shell command and the directory it runs in
+ */
+export interface ShellCommand {
+  command: string;
+  cwd: string;
+}
+
+/**
+ * Something a run would do for a package, as shown by --dry-run
+ *
+ * Steps that don't run a command, such as creating a symlink, only have a
+ * description.
+ */
+export interface PlanStep {
+  package: string;
+  phase: "build" | "link";
+  project: string; // Project the package is built for or linked into
+  description: string;
+  command?: string;
+  cwd?: string;
+  packageManager?: PackageManager; // Package manager running the command
+  note?: string; // Why the step might not happen, or what to look out for
+}
+
+/**
+ * Everything a run would do, in order
+ */
+export interface LinkPlan {
+  project: string;
+  packageManager: PackageManager;
+  order: string[]; // Order the packages are processed in
+  steps: PlanStep[];
+  nested: string[]; // Packages whose own configuration is linked recursively
+  problems: string[]; // Packages that can't be linked as configured
+}
+
+/**
+ * Kind of a package in the dependency graph
+ *
+ * Nested packages are only configured inside another local package, and
+ * unconfigured ones are local packages that are depended on without being
+ * configured anywhere, so their registry versions are used.
+ */
+export type GraphNodeKind = "host" | "local" | "nested" | "unconfigured";
+
+/**
+ * How one package of the graph refers to another, where nested means it is
+ * linked into the package by the package's own configuration
+ */
+export type GraphEdgeType = "dependency" | "dev" | "peer" | "nested";
+
+export interface GraphNode {
+  name: string;
+  kind: GraphNodeKind;
+  path: string;
+  version?: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: GraphEdgeType;
+  cycle: boolean; // Whether both packages are part of the same cycle
+}
+
+/**
+ * The host project, its local packages and how they depend on each other
+ */
+export interface LinkGraph {
+  project: string;
+  host: string; // Name of the host node
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  order: string[]; // Build order of the local and nested packages
+  cycles: string[][]; // Packages that depend on each other in a loop
+  unconfigured: string[];
+  problems: string[]; // Packages that couldn't be read
 }
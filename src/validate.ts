@@ -0,0 +1,244 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigEntry, ConfigIssue, DependencyField } from "./types";
+import { Logger } from "./logger";
+import { CONFIG_FILE, formatConfigIssue, loadConfig } from "./config";
+import { readPackageJson } from "./package-files";
+
+// Dependency fields of the host package.json that can reference a package
+const DEPENDENCY_FIELDS: DependencyField[] = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+
+/**
+ * Check the configuration file without linking anything
+ *
+ * Returns true when no errors were found.
+ */
+export function validateConfig(
+  logger: Logger,
+  projectPath: string = process.cwd(),
+  configFile?: string
+): boolean {
+  const { files, layers, entries, issues } = loadConfig(
+    projectPath,
+    configFile
+  );
+  if (files.length === 0) {
+    logger.error(`No ${configFile || CONFIG_FILE} file found`);
+    return false;
+  }
+
+  logger.info(
+    `Validating ${files
+      .map((file) => path.relative(process.cwd(), file) || file)
+      .join(", ")}...`
+  );
+
+  const hostDependencies = readHostDependencies(projectPath);
+
+  // Overriding an entry from another layer is fine, repeating it is not.
+  // Options are checked on the lines that set them, since merged entries
+  // keep the location of the last layer only
+  for (const layer of layers) {
+    issues.push(...findDuplicateEntries(layer.entries));
+    layer.entries.forEach((entry) => issues.push(...checkPatterns(entry)));
+  }
+
+  for (const entry of entries) {
+    issues.push(...checkEntry(entry, hostDependencies, projectPath));
+  }
+
+  // Report in file order
+  issues.sort(
+    (a, b) =>
+      files.indexOf(a.file) - files.indexOf(b.file) ||
+      (a.line || 0) - (b.line || 0)
+  );
+
+  for (const issue of issues) {
+    if (issue.severity === "error") {
+      logger.error(formatConfigIssue(issue));
+    } else {
+      logger.warn(formatConfigIssue(issue));
+    }
+  }
+
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+
+  if (errorCount > 0) {
+    logger.error(
+      `Found ${errorCount} error(s) and ${warningCount} warning(s) in ${entries.length} packages`
+    );
+    return false;
+  }
+
+  logger.success(
+    `${entries.length} packages are valid` +
+      (warningCount > 0 ? ` (${warningCount} warning(s))` : "")
+  );
+  return true;
+}
+
+/**
+ * Read the names of all packages the host package.json depends on
+ */
+export function readHostDependencies(projectPath: string): Set<string> | null {
+  const packageJson = readPackageJson(projectPath);
+  if (!packageJson) {
+    return null;
+  }
+
+  const names = new Set<string>();
+  for (const field of DEPENDENCY_FIELDS) {
+    Object.keys(packageJson[field] || {}).forEach((name) => names.add(name));
+  }
+  return names;
+}
+
+/**
+ * Report entries that are defined more than once
+ */
+function findDuplicateEntries(entries: ConfigEntry[]): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const firstByName = new Map<string, ConfigEntry>();
+
+  for (const entry of entries) {
+    const first = firstByName.get(entry.name);
+    if (!first) {
+      firstByName.set(entry.name, entry);
+      continue;
+    }
+
+    issues.push({
+      file: entry.file,
+      line: entry.line,
+      message:
+        `Duplicate entry for ${entry.name}` +
+        (first.line ? `, first defined on line ${first.line}` : ""),
+      severity: "error",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check the watch and ignore patterns an entry sets
+ */
+function checkPatterns(entry: ConfigEntry): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const report = (message: string) =>
+    issues.push({
+      file: entry.file,
+      line: entry.line,
+      message,
+      severity: "error",
+    });
+
+  for (const pattern of entry.config.watchPatterns || []) {
+    const problem = checkGlobPattern(pattern);
+    if (problem) {
+      report(`Invalid watch pattern '${pattern}': ${problem}`);
+    }
+  }
+
+  for (const pattern of entry.config.ignore || []) {
+    const problem = checkGlobPattern(pattern);
+    if (problem) {
+      report(`Invalid ignore pattern '${pattern}': ${problem}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a merged entry against the file system and the host package.json
+ */
+function checkEntry(
+  entry: ConfigEntry,
+  hostDependencies: Set<string> | null,
+  projectPath: string
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const report = (message: string, severity: ConfigIssue["severity"]) =>
+    issues.push({ file: entry.file, line: entry.line, message, severity });
+
+  const { name, config } = entry;
+  const absPath = path.isAbsolute(config.path)
+    ? config.path
+    : path.resolve(projectPath, config.path);
+
+  if (hostDependencies && !hostDependencies.has(name)) {
+    report(`${name} is not a dependency in package.json`, "warning");
+  }
+
+  if (!fs.existsSync(absPath)) {
+    report(`Path for ${name} does not exist: ${absPath}`, "error");
+    return issues;
+  }
+
+  const packageJsonPath = path.join(absPath, "package.json");
+  if (!fs.existsSync(packageJsonPath)) {
+    report(`No package.json found in ${absPath}`, "error");
+    return issues;
+  }
+
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    if (packageJson.name !== name) {
+      report(
+        `${name} does not match the name '${packageJson.name}' in ${packageJsonPath}`,
+        "error"
+      );
+    }
+  } catch (error) {
+    report(
+      `Error parsing ${packageJsonPath}: ${(error as Error).message}`,
+      "error"
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Check a glob pattern for syntax errors
+ *
+ * Returns a description of the problem, or null if the pattern is valid.
+ */
+function checkGlobPattern(pattern: string): string | null {
+  const body = pattern.replace(/^!/, "");
+  if (!body.trim()) {
+    return "pattern is empty";
+  }
+
+  const pairs: Record<string, string> = { "{": "}", "[": "]", "(": ")" };
+  const closers = new Set(Object.values(pairs));
+  const stack: string[] = [];
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+
+    if (char === "\\") {
+      i++; // Skip escaped characters
+    } else if (pairs[char]) {
+      stack.push(pairs[char]);
+    } else if (closers.has(char)) {
+      if (stack.pop() !== char) {
+        return `unexpected '${char}'`;
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    return `missing '${stack[stack.length - 1]}'`;
+  }
+
+  return null;
+}
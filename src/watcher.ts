@@ -1,129 +1,620 @@
-import * as fs from "fs";
 import * as path from "path";
 import * as chokidar from "chokidar";
-import { LocalPackages } from "./types";
+import { LinkState, LocalPackages, PackageConfig } from "./types";
 import { Logger } from "./logger";
 import { PackageManagerCommands } from "./package-manager";
 import { buildPackage } from "./builder";
-import { linkPackage } from "./linker";
+import { linkPackage, unlinkPackage } from "./linker";
+import { getConfigPaths, loadConfig } from "./config";
+import {
+  buildDependencyGraph,
+  getBuildDependencies,
+  getDownstreamPackages,
+  getTopologicalOrder,
+} from "./dependency-graph";
+import { runScheduled } from "./scheduler";
+import {
+  createFileMatcher,
+  getOutputDirectory,
+  getSourcePatterns,
+  isWithin,
+} from "./package-files";
+import { DevProcess } from "./dev-process";
+import {
+  describeLinkedPackage,
+  loadState,
+  readState,
+  reportDrift,
+  saveState,
+} from "./state";
 
 /**
- * Interface for watch path configuration
+ * Build state of a watched package
  */
-interface WatchPath {
+export type WatchStatus =
+  | "ready"
+  | "queued"
+  | "building"
+  | "failed"
+  | "skipped";
+
+/**
+ * State of a watched package, as shown by the interactive console
+ */
+export interface WatchedPackageStatus {
   name: string;
-  path: string[];
+  status: WatchStatus;
+  updatedAt?: Date;
+  devCommand?: string;
+  devRunning?: boolean; // Whether the dev command is currently running
 }
 
 /**
- * Get watch patterns for a package
+ * Controls for a running watch session
  */
-function getWatchPatterns(packagePath: string, patterns?: string[]): string[] {
-  // If custom patterns are specified, use those
-  if (patterns && patterns.length > 0) {
-    return patterns.map((pattern) =>
-      path.isAbsolute(pattern) ? pattern : path.join(packagePath, pattern)
-    );
-  }
+export interface WatchSession {
+  getStatus(): WatchedPackageStatus[];
+  rebuild(names?: string[]): void; // Rebuild the given packages, or all
+  pause(): void;
+  resume(): void;
+  isPaused(): boolean;
+  close(): Promise<void>;
+}
 
-  // Otherwise use defaults
-  const srcPath = path.join(packagePath, "src");
-  if (fs.existsSync(srcPath)) {
-    return [path.join(srcPath, "**/*")];
+/**
+ * Files of a package to watch
+ */
+interface WatchedPackage {
+  name: string;
+  description: string; // What is watched, for the log
+  roots: string[]; // Directories containing all watched files
+  isIgnored(file: string): boolean;
+  matches(file: string, isDirectory: boolean): boolean;
+}
+
+/**
+ * Get the absolute path of a package
+ */
+function resolvePackagePath(
+  config: PackageConfig,
+  projectPath: string
+): string {
+  return path.isAbsolute(config.path)
+    ? config.path
+    : path.resolve(projectPath, config.path);
+}
+
+/**
+ * Configure the files of a package to watch
+ *
+ * Packages with a dev command rebuild themselves, so their output is watched
+ * instead of their sources.
+ */
+function createWatchedPackage(
+  name: string,
+  config: PackageConfig,
+  projectPath: string
+): WatchedPackage {
+  const absPath = resolvePackagePath(config, projectPath);
+
+  if (config.devCommand) {
+    const outputDir = getOutputDirectory(absPath, config);
+    return {
+      name,
+      description: `output in ${path.relative(absPath, outputDir) || "."} (${
+        config.devCommand
+      })`,
+      roots: [outputDir],
+      isIgnored: (file) => isWithin(file, path.join(outputDir, "node_modules")),
+      matches: (file) => isWithin(file, outputDir),
+    };
   }
 
-  return [path.join(packagePath, "**/*")];
+  const matcher = createFileMatcher(absPath, config);
+  return {
+    name,
+    description: getSourcePatterns(absPath, config.watchPatterns).join(", "),
+    roots: matcher.watchRoots,
+    isIgnored: matcher.isIgnored,
+    matches: matcher.matches,
+  };
 }
 
 /**
  * Start watching for changes in local packages
+ *
+ * When `reloadPackages` is given, the configuration files are watched too and
+ * the packages it returns replace the current ones. It returns null when the
+ * configuration can't be used, in which case the current packages are kept.
+ * A `configFile` given explicitly is watched instead of the project's own.
+ *
+ * Returns a session to control watching, or null if there is nothing to watch.
  */
 export function watchPackages(
   localPackages: LocalPackages,
   pmCommands: PackageManagerCommands,
-  logger: Logger
-): void {
+  logger: Logger,
+  reloadPackages?: () => LocalPackages | null,
+  configFile?: string
+): WatchSession | null {
   if (Object.keys(localPackages).length === 0) {
-    return;
+    return null;
   }
 
-  // Configure watch paths for each package
-  const watchPaths: WatchPath[] = Object.entries(localPackages).map(
-    ([name, config]) => {
-      const absPath = path.isAbsolute(config.path)
-        ? config.path
-        : path.resolve(process.cwd(), config.path);
+  let packages = localPackages;
+  const projectPath = pmCommands.getProjectPath();
 
-      const patterns = getWatchPatterns(absPath, config.watchPatterns);
-
-      return { name, path: patterns };
-    }
+  // Configure the sources of each package
+  let watchedPackages: WatchedPackage[] = Object.entries(packages).map(
+    ([name, config]) => createWatchedPackage(name, config, projectPath)
   );
 
   logger.info("\nStarting watch mode...");
 
-  // Flatten all patterns for chokidar
-  const allPatterns = watchPaths.flatMap((wp) => wp.path);
-
-  // Configure ignored patterns
-  const ignored = [
-    /(^|[\/\\])\../, // ignore dotfiles
-    "**/node_modules/**",
-    "**/dist/**",
-    "**/build/**",
-    "**/.git/**",
-  ];
+  // Warn when the links on disk don't match the configuration, leaving out
+  // configured packages that weren't selected for watching
+  const state = readState(projectPath);
+  const unselected = new Set(
+    loadConfig(projectPath, configFile)
+      .entries.map((entry) => entry.name)
+      .filter((name) => !packages[name])
+  );
+  reportDrift(
+    packages,
+    state && {
+      ...state,
+      packages: Object.entries(state.packages).reduce<LinkState["packages"]>(
+        (acc, [name, linked]) => {
+          if (!unselected.has(name)) {
+            acc[name] = linked;
+          }
+          return acc;
+        },
+        {}
+      ),
+    },
+    logger,
+    projectPath
+  );
 
   // Show what we're watching
   logger.info("Watching for changes in:");
-  watchPaths.forEach((p) => {
-    logger.info(`  - ${p.name}: ${p.path.join(", ")}`);
+  watchedPackages.forEach((p) => {
+    logger.info(`  - ${p.name}: ${p.description}`);
   });
 
+  // Skip everything that isn't a source of any package, so ignored
+  // directories such as node_modules aren't even traversed
+  const ignored = (file: string) =>
+    !watchedPackages.some(
+      (p) =>
+        p.roots.some((root) => isWithin(file, root) || isWithin(root, file)) &&
+        !p.isIgnored(file)
+    );
+
+  const getWatchRoots = () =>
+    Array.from(new Set(watchedPackages.flatMap((p) => p.roots)));
+
   // Set up the watcher
-  const watcher = chokidar.watch(allPatterns, {
+  const watcher = chokidar.watch(getWatchRoots(), {
     ignored,
     persistent: true,
     ignoreInitial: true,
   });
 
-  // Debounce timers for each package
-  const debounce: Record<string, NodeJS.Timeout> = {};
+  // The graph decides which packages have to be rebuilt after a change
+  let graph = buildDependencyGraph(packages, logger, projectPath);
+  let topologicalOrder = getTopologicalOrder(graph, logger);
 
-  logger.success("\nWatch mode started. Press Ctrl+C to stop.");
+  // Long-running dev commands by package name
+  const devProcesses = new Map<string, DevProcess>();
+
+  /**
+   * Start and stop dev commands to match the configured packages
+   */
+  const syncDevProcesses = () => {
+    for (const [name, devProcess] of devProcesses) {
+      const config = packages[name];
+      if (
+        !config ||
+        config.devCommand !== devProcess.command ||
+        resolvePackagePath(config, projectPath) !== devProcess.cwd
+      ) {
+        devProcess.stop();
+        devProcesses.delete(name);
+      }
+    }
+
+    for (const [name, config] of Object.entries(packages)) {
+      if (config.devCommand && !devProcesses.has(name)) {
+        const devProcess = new DevProcess(
+          name,
+          config.devCommand,
+          resolvePackagePath(config, projectPath),
+          logger
+        );
+        devProcesses.set(name, devProcess);
+        devProcess.start();
+      }
+    }
+  };
+
+  // Packages changed since the last rebuild wave started
+  const changedPackages = new Set<string>();
+  // Packages that have to be linked again, even if they have a dev command
+  const relinkPackages = new Set<string>();
+  // Packages to build even if they have a dev command
+  const forcedPackages = new Set<string>();
+  let paused = false;
+
+  // Everything was built and linked before watching started
+  const statuses = new Map<string, { status: WatchStatus; updatedAt?: Date }>(
+    Object.keys(packages).map((name) => [name, { status: "ready" }])
+  );
+  const setStatus = (name: string, status: WatchStatus) => {
+    statuses.set(name, { status, updatedAt: new Date() });
+  };
+  let configChanged = false;
+  let debounce: NodeJS.Timeout | undefined;
+  let rebuilding = false;
+
+  /**
+   * Apply a changed configuration, returning the packages to rebuild
+   */
+  const applyConfigChanges = (): string[] => {
+    const reloaded = reloadPackages && reloadPackages();
+    if (!reloaded) {
+      logger.warn(
+        "Keeping the current packages until the configuration is fixed"
+      );
+      return [];
+    }
+
+    const { added, removed, changed } = diffPackages(packages, reloaded);
+    if (added.length + removed.length + changed.length === 0) {
+      logger.info("No package changes in the configuration");
+      return [];
+    }
+
+    // Remove packages the way they were linked, and packages whose strategy
+    // changed so they can be linked the new way
+    const state = loadState(pmCommands.getPackageManager(), projectPath);
+    const strategyChanged = changed.filter(
+      (name) => packages[name].strategy !== reloaded[name].strategy
+    );
+
+    for (const name of [...removed, ...strategyChanged]) {
+      logger.info(`Unlinking ${name}...`);
+      if (unlinkPackage(name, packages[name], pmCommands, logger)) {
+        delete state.packages[name];
+      }
+    }
+    saveState(state, logger, projectPath);
+
+    if (removed.length > 0) {
+      logger.info(
+        `Stopped watching ${removed.join(
+          ", "
+        )}. Run '${pmCommands.getPackageManager()} install' to restore the registry versions.`
+      );
+    }
+
+    // Start watching the new set of sources
+    const previousRoots = getWatchRoots();
+    packages = reloaded;
+    watchedPackages = Object.entries(packages).map(([name, config]) =>
+      createWatchedPackage(name, config, projectPath)
+    );
+    const roots = getWatchRoots();
 
-  // Handle file changes
-  watcher.on("change", (changedPath: string) => {
-    logger.info(`\nChange detected: ${changedPath}`);
-
-    // Find which package was changed
-    const matchedPackage = watchPaths.find((wp) =>
-      wp.path.some((pattern) => {
-        // Handle glob patterns by checking if the changed path starts with
-        // the directory part of the pattern
-        const dirPart = pattern.split("*")[0];
-        return changedPath.startsWith(dirPart);
-      })
+    watcher.unwatch(previousRoots.filter((root) => !roots.includes(root)));
+    watcher.add(roots.filter((root) => !previousRoots.includes(root)));
+
+    graph = buildDependencyGraph(packages, logger, projectPath);
+    topologicalOrder = getTopologicalOrder(graph, logger);
+
+    if (added.length > 0) {
+      logger.info(`Now watching ${added.join(", ")}`);
+    }
+    removed.forEach((name) => statuses.delete(name));
+
+    syncDevProcesses();
+    [...added, ...changed].forEach((name) => relinkPackages.add(name));
+
+    return [...added, ...changed];
+  };
+
+  /**
+   * Rebuild and relink a single package during a rebuild wave
+   */
+  const rebuildPackage = async (
+    name: string,
+    relink: Set<string>,
+    forced: Set<string>,
+    state: LinkState
+  ): Promise<boolean> => {
+    const config = packages[name];
+    setStatus(name, "building");
+
+    // Packed packages are re-packed and copied again instead of relinked
+    const action = config.strategy === "pack" ? "repacking" : "relinking";
+
+    if (config.devCommand && !forced.has(name)) {
+      // The dev command already rebuilt the package, and links already
+      // point at its output
+      if (config.strategy !== "pack" && !relink.has(name)) {
+        logger.info(`Output of ${name} updated`);
+        return true;
+      }
+      logger.info(
+        config.strategy === "pack"
+          ? `Repacking ${name}...`
+          : `Relinking ${name}...`
+      );
+    } else {
+      logger.info(`Rebuilding and ${action} ${name}...`);
+      if (!(await buildPackage(name, config, pmCommands, logger))) {
+        return false;
+      }
+    }
+
+    if (!linkPackage(name, config, pmCommands, logger)) {
+      return false;
+    }
+
+    state.packages[name] = describeLinkedPackage(
+      name,
+      config,
+      resolvePackagePath(config, projectPath),
+      projectPath
     );
+    return true;
+  };
+
+  /**
+   * Rebuild the changed packages and their dependents, in dependency order
+   */
+  const rebuild = async () => {
+    if (rebuilding || (changedPackages.size === 0 && !configChanged)) {
+      return;
+    }
+
+    rebuilding = true;
+
+    // A failure outside the builds mustn't leave watching stuck
+    try {
+      if (configChanged) {
+        configChanged = false;
+        applyConfigChanges().forEach((name) => changedPackages.add(name));
+      }
+
+      // Packages removed from the configuration are no longer rebuilt
+      const changed = Array.from(changedPackages).filter(
+        (name) => packages[name]
+      );
+      const relink = new Set(relinkPackages);
+      const forced = new Set(forcedPackages);
+      changedPackages.clear();
+      relinkPackages.clear();
+      forcedPackages.clear();
+
+      const affected = getDownstreamPackages(graph, changed);
+      const order = [
+        ...topologicalOrder.filter((name) => affected.includes(name)),
+        ...affected.filter((name) => !topologicalOrder.includes(name)),
+      ];
+
+      if (order.length > 1) {
+        logger.info(`Rebuilding in order: ${order.join(" → ")}`);
+      }
+
+      const state = loadState(pmCommands.getPackageManager(), projectPath);
+      order.forEach((name) => setStatus(name, "queued"));
+
+      const results = await runScheduled(
+        order,
+        (name) => getBuildDependencies(graph, topologicalOrder, name),
+        1,
+        async (name) => {
+          const startedAt = Date.now();
+          logger.step({ package: name, phase: "watch", status: "started" });
+          const success = await rebuildPackage(name, relink, forced, state);
+          logger.step({
+            package: name,
+            phase: "watch",
+            status: success ? "success" : "failed",
+            duration: Date.now() - startedAt,
+            error: success ? undefined : logger.lastError(),
+          });
+          return success;
+        },
+        (name, dependency) => {
+          logger.warn(`Skipping ${name} because ${dependency} failed`);
+          logger.step({
+            package: name,
+            phase: "watch",
+            status: "skipped",
+            error: `${dependency} failed`,
+          });
+        },
+        (name, error) => {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to rebuild ${name}: ${message}`);
+          logger.step({
+            package: name,
+            phase: "watch",
+            status: "failed",
+            error: message,
+          });
+        }
+      );
+
+      results.forEach((result, name) => {
+        if (statuses.has(name)) {
+          setStatus(name, result === "success" ? "ready" : result);
+        }
+      });
+
+      saveState(state, logger, projectPath);
+    } catch (error) {
+      logger.error(`Rebuild failed: ${(error as Error).message}`);
+    } finally {
+      rebuilding = false;
+    }
+
+    // Changes made during the wave are picked up by the next one
+    rebuild();
+  };
+
+  // Changes made while paused are rebuilt after resuming
+  const scheduleRebuild = () => {
+    clearTimeout(debounce);
+    if (!paused) {
+      debounce = setTimeout(rebuild, 500);
+    }
+  };
+
+  // Watch the configuration files, including layers that don't exist yet
+  let configWatcher: chokidar.FSWatcher | null = null;
+  if (reloadPackages) {
+    configWatcher = chokidar.watch(getConfigPaths(projectPath, configFile), {
+      persistent: true,
+      ignoreInitial: true,
+    });
+
+    configWatcher.on("all", (event: string, changedPath: string) => {
+      logger.info(`\nConfiguration changed: ${changedPath}`);
+      configChanged = true;
+      scheduleRebuild();
+    });
 
-    if (matchedPackage) {
-      const { name } = matchedPackage;
+    configWatcher.on("error", (error) => {
+      logger.error(`Watcher error: ${error}`);
+    });
+  }
+
+  syncDevProcesses();
 
-      // Debounce by package name
-      clearTimeout(debounce[name]);
-      debounce[name] = setTimeout(() => {
-        logger.info(`Rebuilding and relinking ${name}...`);
+  logger.success("\nWatch mode started. Press Ctrl+C to stop.");
 
-        const config = localPackages[name];
+  // Handle files and directories being changed, added or removed
+  watcher.on("all", (event: string, changedPath: string) => {
+    const isDirectory = event === "addDir" || event === "unlinkDir";
+    const absolutePath = path.resolve(changedPath);
 
-        buildPackage(name, config, pmCommands, logger);
-        linkPackage(name, config, pmCommands, logger);
-      }, 500);
+    // A file can belong to several packages, for example a shared directory
+    const matched = watchedPackages.filter((p) =>
+      p.matches(absolutePath, isDirectory)
+    );
+    if (matched.length === 0) {
+      return;
     }
+
+    logger.info(`\n${describeEvent(event)}: ${changedPath}`);
+    logger.change({
+      packages: matched.map(({ name }) => name),
+      event,
+      path: absolutePath,
+    });
+
+    // Coalesce bursts of changes, even across packages, into one wave
+    matched.forEach(({ name }) => changedPackages.add(name));
+    scheduleRebuild();
   });
 
   // Handle errors
   watcher.on("error", (error) => {
     logger.error(`Watcher error: ${error}`);
   });
+
+  return {
+    getStatus: () =>
+      Object.entries(packages).map(([name, config]) => {
+        const devProcess = devProcesses.get(name);
+        return {
+          name,
+          ...(statuses.get(name) || { status: "ready" as WatchStatus }),
+          devCommand: config.devCommand,
+          devRunning: devProcess ? devProcess.isRunning() : undefined,
+        };
+      }),
+    rebuild(names: string[] = Object.keys(packages)) {
+      names
+        .filter((name) => packages[name])
+        .forEach((name) => {
+          changedPackages.add(name);
+          forcedPackages.add(name);
+        });
+      clearTimeout(debounce);
+      rebuild();
+    },
+    pause() {
+      paused = true;
+      clearTimeout(debounce);
+      logger.info("Watching paused, changes are rebuilt after resuming");
+    },
+    resume() {
+      paused = false;
+      logger.info("Watching resumed");
+      scheduleRebuild();
+    },
+    isPaused: () => paused,
+    async close() {
+      clearTimeout(debounce);
+      devProcesses.forEach((devProcess) => devProcess.stop());
+      await Promise.all([
+        watcher.close(),
+        configWatcher ? configWatcher.close() : Promise.resolve(),
+      ]);
+    },
+  };
+}
+
+/**
+ * Compare two configurations, listing the packages that were added, removed
+ * or changed in a way that needs a rebuild
+ */
+function diffPackages(
+  previous: LocalPackages,
+  next: LocalPackages
+): { added: string[]; removed: string[]; changed: string[] } {
+  // Fields that affect how a package is built, watched or linked
+  const describe = (config: PackageConfig) =>
+    JSON.stringify([
+      config.path,
+      config.buildCommand,
+      config.watchPatterns,
+      config.ignore,
+      config.devCommand,
+      config.outputDir,
+      config.strategy,
+    ]);
+
+  return {
+    added: Object.keys(next).filter((name) => !previous[name]),
+    removed: Object.keys(previous).filter((name) => !next[name]),
+    changed: Object.keys(next).filter(
+      (name) =>
+        previous[name] && describe(previous[name]) !== describe(next[name])
+    ),
+  };
+}
+
+/**
+ * Describe a watcher event for the log
+ */
+function describeEvent(event: string): string {
+  switch (event) {
+    case "add":
+      return "File added";
+    case "unlink":
+      return "File removed";
+    case "addDir":
+      return "Directory added";
+    case "unlinkDir":
+      return "Directory removed";
+    default:
+      return "Change detected";
+  }
 }
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { BuildCache } from "../src/build-cache";
+import { Logger } from "../src/logger";
+import { SilentReporter } from "../src/reporter";
+import { PackageConfig } from "../src/types";
+import { createFixture, writeFiles } from "./helpers";
+
+const CONFIG: PackageConfig = { path: "../lib", buildCommand: "tsc" };
+
+function createLibrary() {
+  const root = createFixture({
+    "app/package.json": { name: "app" },
+    "lib/package.json": { name: "lib", version: "1.0.0" },
+    "lib/src/index.ts": "export const a = 1;\n",
+    "lib/dist/index.js": "exports.a = 1;\n",
+    "util/package.json": { name: "util", version: "1.0.0" },
+    "util/src/index.ts": "export const u = 1;\n",
+  });
+  return {
+    root,
+    project: path.join(root, "app"),
+    lib: path.join(root, "lib"),
+    util: path.join(root, "util"),
+    output: path.join(root, "lib", "dist"),
+  };
+}
+
+describe("BuildCache", () => {
+  it("skips a package whose inputs haven't changed since its last build", () => {
+    const { project, lib, output } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const fingerprint = cache.fingerprint("lib", lib, CONFIG, []);
+
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(false);
+    cache.record("lib", fingerprint, output);
+
+    expect(cache.fingerprint("lib", lib, CONFIG, [])).toBe(fingerprint);
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(true);
+  });
+
+  it("changes the fingerprint when sources, the manifest or the command change", () => {
+    const { project, lib } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const original = cache.fingerprint("lib", lib, CONFIG, []);
+
+    writeFiles(lib, { "src/index.ts": "export const a = 2;\n" });
+    const edited = cache.fingerprint("lib", lib, CONFIG, []);
+    expect(edited).not.toBe(original);
+
+    writeFiles(lib, { "src/extra.ts": "export {};\n" });
+    const added = cache.fingerprint("lib", lib, CONFIG, []);
+    expect(added).not.toBe(edited);
+
+    writeFiles(lib, { "package.json": { name: "lib", version: "1.0.1" } });
+    const bumped = cache.fingerprint("lib", lib, CONFIG, []);
+    expect(bumped).not.toBe(added);
+
+    expect(
+      cache.fingerprint("lib", lib, { ...CONFIG, buildCommand: "tsc -b" }, [])
+    ).not.toBe(bumped);
+  });
+
+  it("ignores build output and files outside the sources", () => {
+    const { project, lib } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const original = cache.fingerprint("lib", lib, CONFIG, []);
+
+    writeFiles(lib, {
+      "dist/index.js": "exports.a = 2;\n",
+      "README.md": "# lib\n",
+    });
+    expect(cache.fingerprint("lib", lib, CONFIG, [])).toBe(original);
+  });
+
+  it("rebuilds dependents when a dependency changes", () => {
+    const { project, lib, util } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const utilConfig = { path: "../util" };
+
+    cache.fingerprint("util", util, utilConfig, []);
+    const original = cache.fingerprint("lib", lib, CONFIG, ["util"]);
+
+    writeFiles(util, { "src/index.ts": "export const u = 2;\n" });
+    cache.fingerprint("util", util, utilConfig, []);
+    expect(cache.fingerprint("lib", lib, CONFIG, ["util"])).not.toBe(original);
+  });
+
+  it("rebuilds a package whose output was deleted or emptied", () => {
+    const { project, lib, output } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const fingerprint = cache.fingerprint("lib", lib, CONFIG, []);
+    cache.record("lib", fingerprint, output);
+
+    fs.rmSync(path.join(output, "index.js"));
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(false);
+
+    fs.rmSync(output, { recursive: true });
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(false);
+  });
+
+  it("only compares the inputs of builds that wrote no output", () => {
+    const { project, lib, output } = createLibrary();
+    fs.rmSync(output, { recursive: true });
+    const cache = new BuildCache(false, project);
+    const fingerprint = cache.fingerprint("lib", lib, CONFIG, []);
+    cache.record("lib", fingerprint, output);
+
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(true);
+  });
+
+  it("rebuilds forgotten packages and everything when forced", () => {
+    const { project, lib, output } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const fingerprint = cache.fingerprint("lib", lib, CONFIG, []);
+    cache.record("lib", fingerprint, output);
+    cache.save(new Logger(false, new SilentReporter()));
+
+    const forced = new BuildCache(true, project);
+    expect(forced.isUpToDate("lib", fingerprint, output)).toBe(false);
+
+    cache.forget("lib");
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(false);
+  });
+
+  it("keeps the fingerprints across runs", () => {
+    const { project, lib, output } = createLibrary();
+    const cache = new BuildCache(false, project);
+    const fingerprint = cache.fingerprint("lib", lib, CONFIG, []);
+    cache.record("lib", fingerprint, output);
+    cache.save(new Logger(false, new SilentReporter()));
+
+    const next = new BuildCache(false, project);
+    expect(
+      next.isUpToDate("lib", next.fingerprint("lib", lib, CONFIG, []), output)
+    ).toBe(true);
+  });
+
+  it("starts over when the cache file is corrupt", () => {
+    const { project, lib, output } = createLibrary();
+    writeFiles(project, { ".local-linker/build-cache.json": "{ not json" });
+
+    const cache = new BuildCache(false, project);
+    const fingerprint = cache.fingerprint("lib", lib, CONFIG, []);
+    expect(cache.isUpToDate("lib", fingerprint, output)).toBe(false);
+  });
+});
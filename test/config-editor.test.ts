@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  addConfigEntries,
+  checkConfigEntry,
+  formatPackageLine,
+  removeConfigEntries,
+} from "../src/config-editor";
+import { parseLegacyConfig } from "../src/config-formats";
+import { ConfigError } from "../src/config";
+import { PackageConfig } from "../src/types";
+import { createFixture } from "./helpers";
+
+const LEGACY = "/project/.localpackages";
+const JSON_FILE = "/project/localpackages.json";
+
+describe("checkConfigEntry", () => {
+  it("accepts packages that round-trip through the legacy format", () => {
+    const configs: PackageConfig[] = [
+      { path: "../ui" },
+      { path: "../my packages/ui", buildCommand: "npm run build" },
+      { path: "../ui", buildCommand: `node -e "a[0]"` },
+      { path: "../ui", buildCommand: "test [ -d src ] && tsc" },
+      {
+        path: "../types",
+        buildCommand: "pnpm compile",
+        watchPatterns: ["src/**/*.{ts,tsx}", "styles/**"],
+        ignore: ["*.snap"],
+        devCommand: "tsc --watch",
+        outputDir: "lib",
+        strategy: "pack",
+        groups: ["web", "api"],
+      },
+    ];
+
+    for (const config of configs) {
+      expect(checkConfigEntry(LEGACY, "ui", config)).toBeUndefined();
+
+      const { entries, issues } = parseLegacyConfig(
+        LEGACY,
+        formatPackageLine("ui", config)
+      );
+      expect(issues).toEqual([]);
+      expect(entries[0].config).toEqual(config);
+    }
+  });
+
+  it("refuses packages the legacy format would read back differently", () => {
+    const configs: PackageConfig[] = [
+      { path: "../ui", buildCommand: "node -e x]" },
+      { path: "../ui", buildCommand: "echo 'unterminated" },
+      { path: "../ui", watchPatterns: ["src/a]b"] },
+      { path: "../ui", watchPatterns: ["src/{a", "b}"] },
+      { path: "../ui", buildCommand: "dev:server" },
+      { path: "../ui [x]" },
+    ];
+
+    for (const config of configs) {
+      expect(checkConfigEntry(LEGACY, "ui", config)).toMatch(
+        /^ui can't be written to \.localpackages as 'ui = /
+      );
+    }
+  });
+
+  it("accepts anything for JSON files", () => {
+    expect(
+      checkConfigEntry(JSON_FILE, "ui", {
+        path: "../ui",
+        buildCommand: "node -e x]",
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe("addConfigEntries", () => {
+  it("appends lines, keeping comments and line endings", () => {
+    const root = createFixture({
+      ".localpackages": "# Team packages\r\na = ../a",
+    });
+    const configPath = path.join(root, ".localpackages");
+
+    addConfigEntries(configPath, [
+      { name: "b", config: { path: "../b", buildCommand: "npm run build" } },
+    ]);
+
+    expect(fs.readFileSync(configPath, "utf8")).toBe(
+      "# Team packages\r\na = ../a\r\nb = ../b [npm run build]\r\n"
+    );
+  });
+
+  it("refuses packages that are already defined or can't be written", () => {
+    const root = createFixture({ ".localpackages": "a = ../a\n" });
+    const configPath = path.join(root, ".localpackages");
+
+    expect(() =>
+      addConfigEntries(configPath, [{ name: "a", config: { path: "../a" } }])
+    ).toThrow(
+      new ConfigError("a is already defined on line 1 of .localpackages")
+    );
+    expect(() =>
+      addConfigEntries(configPath, [
+        { name: "b", config: { path: "../b", buildCommand: "node -e x]" } },
+      ])
+    ).toThrow(ConfigError);
+    expect(fs.readFileSync(configPath, "utf8")).toBe("a = ../a\n");
+  });
+
+  it("writes JSON packages with the path shorthand, keeping other fields", () => {
+    const root = createFixture({
+      "localpackages.json":
+        '{\n    "variables": { "ROOT": ".." },\n    "packages": {}\n}\n',
+    });
+    const configPath = path.join(root, "localpackages.json");
+
+    addConfigEntries(configPath, [
+      { name: "a", config: { path: "../a", buildCommand: undefined } },
+      { name: "b", config: { path: "../b", buildCommand: "node -e x]" } },
+    ]);
+
+    const content = fs.readFileSync(configPath, "utf8");
+    expect(content).toContain('\n    "variables"');
+    expect(JSON.parse(content)).toEqual({
+      variables: { ROOT: ".." },
+      packages: {
+        a: "../a",
+        b: { path: "../b", buildCommand: "node -e x]" },
+      },
+    });
+  });
+});
+
+describe("removeConfigEntries", () => {
+  it("removes only the lines of the named packages", () => {
+    const root = createFixture({
+      ".localpackages": "# shared\na = ../a\nb = ../b\n",
+    });
+    const configPath = path.join(root, ".localpackages");
+
+    expect(removeConfigEntries(configPath, ["a", "missing"])).toEqual([
+      "missing",
+    ]);
+    expect(fs.readFileSync(configPath, "utf8")).toBe("# shared\nb = ../b\n");
+  });
+});
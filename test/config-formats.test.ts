@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseJsonConfig,
+  parseLegacyConfig,
+  serializeJsonConfig,
+} from "../src/config-formats";
+
+const FILE = "/project/.localpackages";
+const JSON_FILE = "/project/localpackages.json";
+
+function parseLine(line: string) {
+  const { entries, issues } = parseLegacyConfig(FILE, line);
+  expect(issues).toEqual([]);
+  expect(entries).toHaveLength(1);
+  return entries[0].config;
+}
+
+describe("parseLegacyConfig", () => {
+  it("parses a package with only a path", () => {
+    const { entries } = parseLegacyConfig(FILE, "ui-lib = ../ui-lib\n");
+    expect(entries).toEqual([
+      { name: "ui-lib", config: { path: "../ui-lib" }, file: FILE, line: 1 },
+    ]);
+  });
+
+  it("parses the build command and every option", () => {
+    expect(
+      parseLine(
+        "types = ../types [pnpm compile] [watch:src/**,lib/**] [ignore:*.snap] " +
+          "[dev:tsc --watch] [output:lib] [strategy:pack] [groups:web,api]"
+      )
+    ).toEqual({
+      path: "../types",
+      buildCommand: "pnpm compile",
+      watchPatterns: ["src/**", "lib/**"],
+      ignore: ["*.snap"],
+      devCommand: "tsc --watch",
+      outputDir: "lib",
+      strategy: "pack",
+      groups: ["web", "api"],
+    });
+  });
+
+  it("accepts watch patterns written as watch:[...]", () => {
+    expect(parseLine("utils = ../utils watch:[src/**,tests/**]")).toEqual({
+      path: "../utils",
+      watchPatterns: ["src/**", "tests/**"],
+    });
+    expect(parseLine("utils = ../utils [watch:[src/**]]")).toEqual({
+      path: "../utils",
+      watchPatterns: ["src/**"],
+    });
+  });
+
+  it("keeps paths with spaces together", () => {
+    expect(parseLine("ui = ../my packages/ui [npm run build]")).toEqual({
+      path: "../my packages/ui",
+      buildCommand: "npm run build",
+    });
+  });
+
+  it("allows nested and quoted brackets in build commands", () => {
+    expect(parseLine(`a = ../a [node -e "x[0]"]`).buildCommand).toBe(
+      `node -e "x[0]"`
+    );
+    expect(parseLine(`a = ../a [node -e 'a]']`).buildCommand).toBe(
+      `node -e 'a]'`
+    );
+    expect(parseLine("a = ../a [test [ -d src ] && tsc]").buildCommand).toBe(
+      "test [ -d src ] && tsc"
+    );
+  });
+
+  it("keeps commas inside braces in one pattern", () => {
+    expect(
+      parseLine("a = ../a [watch:src/**/*.{ts,tsx},styles/**]").watchPatterns
+    ).toEqual(["src/**/*.{ts,tsx}", "styles/**"]);
+  });
+
+  it("skips comments and blank lines, keeping line numbers", () => {
+    const { entries } = parseLegacyConfig(
+      FILE,
+      "# Shared packages\n\n  a = ../a\r\n# b = ../b\nc = ../c\n"
+    );
+    expect(entries.map((entry) => [entry.name, entry.line])).toEqual([
+      ["a", 3],
+      ["c", 5],
+    ]);
+  });
+
+  it("reads variables and disabled packages", () => {
+    const result = parseLegacyConfig(
+      FILE,
+      "$PACKAGES = ~/code/packages\n!old-lib\na = $PACKAGES/a\n"
+    );
+    expect(result.variables).toEqual([
+      { name: "PACKAGES", value: "~/code/packages", file: FILE, line: 1 },
+    ]);
+    expect(result.disabled).toEqual([{ name: "old-lib", file: FILE, line: 2 }]);
+    expect(result.entries[0].config.path).toBe("$PACKAGES/a");
+  });
+
+  it("reports the line and column of malformed entries", () => {
+    const cases: [string, string, number][] = [
+      ["just-a-name", "Expected 'package-name = path'", 1],
+      ["  = ../a", "Missing package name before '='", 3],
+      ["a = ", "Missing path for a", 4],
+      ["a = ../a [npm run build", "Missing closing ']'", 10],
+      ["a = ../a [one] [two]", "Only one build command is allowed", 16],
+      ["a = ../a [strategy:copy]", "Unknown strategy 'copy'", 10],
+      ["a = ../a [watch:]", "watch: needs at least one pattern", 10],
+      ["a = ../a [build] extra", "Unexpected 'e'", 18],
+    ];
+
+    for (const [line, message, column] of cases) {
+      const { entries, issues } = parseLegacyConfig(FILE, `\n${line}`);
+      expect(entries).toEqual([]);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        file: FILE,
+        line: 2,
+        column,
+        severity: "error",
+      });
+      expect(issues[0].message).toContain(message);
+    }
+  });
+
+  it("reports an invalid disable line", () => {
+    const { issues } = parseLegacyConfig(FILE, "a = ../a\n! two words\n");
+    expect(issues).toMatchObject([{ line: 2, column: 1 }]);
+  });
+});
+
+describe("parseJsonConfig", () => {
+  it("reads packages, variables and disabled packages with their lines", () => {
+    const result = parseJsonConfig(
+      JSON_FILE,
+      `{
+  "variables": { "ROOT": "../packages" },
+  "packages": {
+    "a": "$ROOT/a",
+    "b": { "path": "../b", "buildCommand": "npm run build" },
+    "c": false
+  }
+}`
+    );
+
+    expect(result.issues).toEqual([]);
+    expect(result.variables).toEqual([
+      { name: "ROOT", value: "../packages", file: JSON_FILE, line: 2 },
+    ]);
+    expect(result.entries).toEqual([
+      { name: "a", config: { path: "$ROOT/a" }, file: JSON_FILE, line: 4 },
+      {
+        name: "b",
+        config: { path: "../b", buildCommand: "npm run build" },
+        file: JSON_FILE,
+        line: 5,
+      },
+    ]);
+    expect(result.disabled).toEqual([{ name: "c", file: JSON_FILE, line: 6 }]);
+  });
+
+  it("reports syntax errors at their line and column", () => {
+    const result = parseJsonConfig(
+      JSON_FILE,
+      '{\n  "packages": {\n    "a": "../a",\n  }\n}'
+    );
+    expect(result.entries).toEqual([]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      file: JSON_FILE,
+      line: 4,
+      column: 3,
+    });
+  });
+
+  it("reports schema errors at the offending value and keeps valid packages", () => {
+    const result = parseJsonConfig(
+      JSON_FILE,
+      `{
+  "packages": {
+    "a": "../a",
+    "b": { "path": "../b", "strategy": "copy" }
+  }
+}`
+    );
+
+    expect(result.entries.map((entry) => entry.name)).toEqual(["a"]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ file: JSON_FILE, line: 4 });
+    expect(result.issues[0].column).toBeGreaterThan(1);
+  });
+
+  it("reports unknown top-level keys at the key", () => {
+    const result = parseJsonConfig(
+      JSON_FILE,
+      '{\n  "packages": {},\n  "pakages": {}\n}'
+    );
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ line: 3, column: 3 });
+  });
+});
+
+describe("serializeJsonConfig", () => {
+  it("writes a configuration that parses back to the same packages", () => {
+    const parsed = parseLegacyConfig(
+      FILE,
+      "$ROOT = ../packages\n!old\na = $ROOT/a\nb = ../b [npm run build] [watch:src/**]\n"
+    );
+    const reparsed = parseJsonConfig(JSON_FILE, serializeJsonConfig(parsed));
+
+    expect(reparsed.issues).toEqual([]);
+    expect(
+      reparsed.variables.map(({ name, value }) => ({ name, value }))
+    ).toEqual([{ name: "ROOT", value: "../packages" }]);
+    expect(reparsed.disabled.map((entry) => entry.name)).toEqual(["old"]);
+    expect(
+      reparsed.entries.map(({ name, config }) => ({ name, config }))
+    ).toEqual(parsed.entries.map(({ name, config }) => ({ name, config })));
+  });
+
+  it("uses the path shorthand for packages without options", () => {
+    const json = JSON.parse(
+      serializeJsonConfig(parseLegacyConfig(FILE, "a = ../a\n"))
+    );
+    expect(json.packages).toEqual({ a: "../a" });
+    expect(json.variables).toBeUndefined();
+  });
+});
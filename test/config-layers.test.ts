@@ -0,0 +1,123 @@
+import * as os from "os";
+import * as path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { expandPath, mergeConfigLayers } from "../src/config-layers";
+import { parseLegacyConfig } from "../src/config-formats";
+
+const PROJECT = "/work/app";
+const SHARED = `${PROJECT}/.localpackages`;
+const LOCAL = `${PROJECT}/.localpackages.local`;
+
+function merge(...contents: string[]) {
+  const files = [SHARED, LOCAL].slice(0, contents.length);
+  return mergeConfigLayers(
+    files,
+    contents.map((content, index) => parseLegacyConfig(files[index], content)),
+    PROJECT
+  );
+}
+
+describe("mergeConfigLayers", () => {
+  afterEach(() => {
+    delete process.env.LOCAL_LINKER_TEST_ROOT;
+  });
+
+  it("overrides only the fields a later layer sets", () => {
+    const { entries, issues } = merge(
+      "ui = ../ui [npm run build] [watch:src/**] [groups:web]\n",
+      "ui = ../../forks/ui [strategy:pack]\n"
+    );
+
+    expect(issues).toEqual([]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ name: "ui", file: LOCAL, line: 1 });
+    expect(entries[0].config).toEqual({
+      path: "../../forks/ui",
+      buildCommand: "npm run build",
+      watchPatterns: ["src/**"],
+      groups: ["web"],
+      strategy: "pack",
+    });
+  });
+
+  it("keeps packages in the order they were first defined", () => {
+    const { entries } = merge("a = ../a\nb = ../b\n", "c = ../c\na = ../a2\n");
+    expect(entries.map((entry) => entry.name)).toEqual(["a", "b", "c"]);
+  });
+
+  it("removes packages disabled by a later layer", () => {
+    const { entries } = merge("a = ../a\nb = ../b\n", "!a\n");
+    expect(entries.map((entry) => entry.name)).toEqual(["b"]);
+  });
+
+  it("ignores disabled packages that no layer defines", () => {
+    const { entries, issues } = merge("a = ../a\n", "!b\n");
+    expect(issues).toEqual([]);
+    expect(entries.map((entry) => entry.name)).toEqual(["a"]);
+  });
+
+  it("expands variables from any layer in paths", () => {
+    const { entries, issues } = merge(
+      "$ROOT = ../packages\na = $ROOT/a\nb = ${ROOT}/b\n",
+      "$ROOT = ~/packages\n"
+    );
+
+    expect(issues).toEqual([]);
+    expect(entries.map((entry) => entry.config.path)).toEqual([
+      path.join(os.homedir(), "packages") + "/a",
+      path.join(os.homedir(), "packages") + "/b",
+    ]);
+  });
+
+  it("lets variables use variables defined before them", () => {
+    const { entries } = merge(
+      "$BASE = ../code\n$PACKAGES = $BASE/packages\na = $PACKAGES/a\n"
+    );
+    expect(entries[0].config.path).toBe("../code/packages/a");
+  });
+
+  it("provides the project root and prefers environment variables", () => {
+    process.env.LOCAL_LINKER_TEST_ROOT = "/from/env";
+    const { entries } = merge(
+      "$LOCAL_LINKER_TEST_ROOT = /from/file\n" +
+        "a = $LOCAL_LINKER_TEST_ROOT/a\nb = $PROJECT_ROOT/../b\n"
+    );
+    expect(entries.map((entry) => entry.config.path)).toEqual([
+      "/from/env/a",
+      `${PROJECT}/../b`,
+    ]);
+  });
+
+  it("reports undefined variables and leaves the package out", () => {
+    const { entries, issues } = merge("a = $MISSING_PACKAGES/a\nb = ../b\n");
+
+    expect(entries.map((entry) => entry.name)).toEqual(["b"]);
+    expect(issues).toEqual([
+      {
+        file: SHARED,
+        line: 1,
+        message: "Undefined variable $MISSING_PACKAGES in path of a",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("passes on the parse issues of every layer", () => {
+    const { issues } = merge("a = ../a [oops\n", "b\n");
+    expect(issues.map((issue) => [issue.file, issue.line])).toEqual([
+      [SHARED, 1],
+      [LOCAL, 1],
+    ]);
+  });
+});
+
+describe("expandPath", () => {
+  it("expands a leading ~ only", () => {
+    const variables = new Map<string, string>();
+    expect(expandPath("~", variables)).toBe(os.homedir());
+    expect(expandPath("~/code/a", variables)).toBe(
+      path.join(os.homedir(), "code/a")
+    );
+    expect(expandPath("../~a", variables)).toBe("../~a");
+  });
+});
@@ -0,0 +1,102 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { createLinkGraph } from "../src/graph";
+import { Logger } from "../src/logger";
+import { SilentReporter } from "../src/reporter";
+import { LinkGraph } from "../src/types";
+import { createFixture } from "./helpers";
+
+/**
+ * Create a project with local packages depending on each other as given
+ */
+function createGraph(dependencies: Record<string, string[]>): LinkGraph {
+  const files: Record<string, unknown> = {
+    "app/package.json": {
+      name: "app",
+      dependencies: Object.keys(dependencies).reduce<Record<string, string>>(
+        (acc, name) => ({ ...acc, [name]: "^1.0.0" }),
+        {}
+      ),
+    },
+  };
+  for (const [name, deps] of Object.entries(dependencies)) {
+    files[`packages/${name}/package.json`] = {
+      name,
+      version: "1.0.0",
+      dependencies: deps.reduce<Record<string, string>>(
+        (acc, dep) => ({ ...acc, [dep]: "^1.0.0" }),
+        {}
+      ),
+    };
+  }
+
+  const root = createFixture(files);
+  return createLinkGraph(
+    Object.keys(dependencies).reduce(
+      (acc, name) => ({ ...acc, [name]: { path: `../packages/${name}` } }),
+      {}
+    ),
+    new Logger(false, new SilentReporter()),
+    path.join(root, "app")
+  );
+}
+
+const cycleEdges = (graph: LinkGraph) =>
+  graph.edges
+    .filter((edge) => edge.cycle)
+    .map((edge) => `${edge.from}->${edge.to}`)
+    .sort();
+
+describe("createLinkGraph", () => {
+  it("finds no cycles in a graph without any", () => {
+    const graph = createGraph({ a: ["b"], b: ["c"], c: [] });
+
+    expect(graph.cycles).toEqual([]);
+    expect(cycleEdges(graph)).toEqual([]);
+    expect(graph.order).toEqual(["c", "b", "a"]);
+  });
+
+  it("finds packages that depend on each other", () => {
+    const graph = createGraph({ a: ["b"], b: ["a"], c: ["a"] });
+
+    expect(graph.cycles.map((cycle) => [...cycle].sort())).toEqual([
+      ["a", "b"],
+    ]);
+    expect(cycleEdges(graph)).toEqual(["a->b", "b->a"]);
+  });
+
+  it("finds longer loops and keeps separate loops apart", () => {
+    const graph = createGraph({
+      a: ["b"],
+      b: ["c"],
+      c: ["a"],
+      x: ["y"],
+      y: ["x", "a"],
+    });
+
+    expect(graph.cycles.map((cycle) => [...cycle].sort()).sort()).toEqual([
+      ["a", "b", "c"],
+      ["x", "y"],
+    ]);
+    expect(cycleEdges(graph)).toEqual(["a->b", "b->c", "c->a", "x->y", "y->x"]);
+  });
+
+  it("still orders every package when there is a cycle", () => {
+    const graph = createGraph({ a: ["b"], b: ["a"], c: ["a"] });
+
+    expect([...graph.order].sort()).toEqual(["a", "b", "c"]);
+    expect(graph.order.indexOf("a")).toBeLessThan(graph.order.indexOf("c"));
+  });
+
+  it("connects the host to the packages it depends on", () => {
+    const graph = createGraph({ a: [] });
+
+    expect(graph.host).toBe("app");
+    expect(graph.edges).toContainEqual({
+      from: "app",
+      to: "a",
+      type: "dependency",
+      cycle: false,
+    });
+  });
+});
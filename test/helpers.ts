@@ -0,0 +1,42 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach } from "vitest";
+
+const directories: string[] = [];
+
+afterEach(() => {
+  directories
+    .splice(0)
+    .forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+/**
+ * Create a temporary directory with the given files, removed after the test
+ *
+ * Objects are written as JSON, everything else as it is.
+ */
+export function createFixture(files: Record<string, unknown> = {}): string {
+  const root = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), "local-linker-"))
+  );
+  directories.push(root);
+  writeFiles(root, files);
+  return root;
+}
+
+/**
+ * Write files below a directory, creating their parent directories
+ */
+export function writeFiles(root: string, files: Record<string, unknown>): void {
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      typeof content === "string"
+        ? content
+        : JSON.stringify(content, null, 2) + "\n"
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { runScheduled } from "../src/scheduler";
+
+// a ← b ← c, and d on its own
+const DEPENDENCIES: Record<string, string[]> = {
+  a: [],
+  b: ["a"],
+  c: ["b"],
+  d: [],
+};
+const getDependencies = (name: string) => DEPENDENCIES[name] || [];
+
+describe("runScheduled", () => {
+  it("runs each task after its dependencies", async () => {
+    const started: string[] = [];
+    const results = await runScheduled(
+      ["c", "b", "a", "d"],
+      getDependencies,
+      1,
+      async (name) => {
+        started.push(name);
+        return true;
+      }
+    );
+
+    expect(started.indexOf("a")).toBeLessThan(started.indexOf("b"));
+    expect(started.indexOf("b")).toBeLessThan(started.indexOf("c"));
+    expect([...results.values()]).toEqual([
+      "success",
+      "success",
+      "success",
+      "success",
+    ]);
+  });
+
+  it("skips the dependents of a failed task, but not other tasks", async () => {
+    const skipped: [string, string][] = [];
+    const results = await runScheduled(
+      ["a", "b", "c", "d"],
+      getDependencies,
+      2,
+      async (name) => name !== "a",
+      (name, dependency) => skipped.push([name, dependency])
+    );
+
+    expect(Object.fromEntries(results)).toEqual({
+      a: "failed",
+      b: "skipped",
+      c: "skipped",
+      d: "success",
+    });
+    expect(skipped).toEqual([
+      ["b", "a"],
+      ["c", "b"],
+    ]);
+  });
+
+  it("fails a task that throws and passes on its error", async () => {
+    const errors: [string, unknown][] = [];
+    const error = new Error("EACCES");
+    const results = await runScheduled(
+      ["a", "b", "d"],
+      getDependencies,
+      1,
+      async (name) => {
+        if (name === "a") {
+          throw error;
+        }
+        return true;
+      },
+      undefined,
+      (name, thrown) => errors.push([name, thrown])
+    );
+
+    expect(errors).toEqual([["a", error]]);
+    expect(Object.fromEntries(results)).toEqual({
+      a: "failed",
+      b: "skipped",
+      d: "success",
+    });
+  });
+
+  it("only waits for dependencies that are scheduled", async () => {
+    const results = await runScheduled(
+      ["c"],
+      getDependencies,
+      1,
+      async () => true
+    );
+    expect(Object.fromEntries(results)).toEqual({ c: "success" });
+  });
+
+  it("runs at most `concurrency` tasks at a time", async () => {
+    let running = 0;
+    let mostRunning = 0;
+    await runScheduled(["a", "d", "x", "y"], getDependencies, 2, async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return true;
+    });
+
+    expect(mostRunning).toBe(2);
+  });
+
+  it("resolves right away when there is nothing to run", async () => {
+    const results = await runScheduled(
+      [],
+      getDependencies,
+      1,
+      async () => true
+    );
+    expect(results.size).toBe(0);
+  });
+});